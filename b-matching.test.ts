@@ -0,0 +1,163 @@
+import { describe, test, expect } from "bun:test";
+
+import { BipartiteGraph, BipartiteGraphError, createBipartiteGraph, HopcroftKarp } from "./hopkroft-karp";
+import { BMatching, BMatchingSolver } from "./b-matching";
+import { createRandom, randomDenseGraph } from "./test-helpers";
+
+/**
+ * Checks that a b-matching uses each distinct edge at most once and respects capacities.
+ */
+function expectValid(graph: BipartiteGraph, matching: BMatching, left: number[], right: number[]): void {
+  let size = 0;
+  matching.partnersLeft.forEach((partners, u) => {
+    expect(partners.length).toBeLessThanOrEqual(left[u]);
+    expect(new Set(partners).size).toBe(partners.length);
+    for (const v of partners) {
+      expect(graph.edges[u]).toContain(v);
+      expect(matching.partnersRight[v]).toContain(u);
+    }
+    size += partners.length;
+  });
+  matching.partnersRight.forEach((partners, v) => {
+    expect(partners.length).toBeLessThanOrEqual(right[v]);
+  });
+  expect(matching.size).toBe(size);
+}
+
+/**
+ * Brute force: the largest set of distinct edges respecting capacities.
+ */
+function bruteForce(graph: BipartiteGraph, left: number[], right: number[]): number {
+  const pairs = graph.edges.flatMap((adjacent, u) => [...new Set(adjacent)].map(v => [u, v]));
+  const loadLeft = new Array(graph.leftSize).fill(0);
+  const loadRight = new Array(graph.rightSize).fill(0);
+  let best = 0;
+
+  const search = (i: number, size: number): void => {
+    if (i === pairs.length) {
+      best = Math.max(best, size);
+      return;
+    }
+    search(i + 1, size);
+    const [u, v] = pairs[i];
+    if (loadLeft[u] < left[u] && loadRight[v] < right[v]) {
+      loadLeft[u]++;
+      loadRight[v]++;
+      search(i + 1, size + 1);
+      loadLeft[u]--;
+      loadRight[v]--;
+    }
+  };
+
+  search(0, 0);
+  return best;
+}
+
+describe("BMatchingSolver", () => {
+  test("assigns several partners per vertex", () => {
+    // Nurses 0 and 1 cover up to 3 and 1 shifts; shifts 0-3 each need one nurse
+    const graph = createBipartiteGraph(2, 4, [
+      [0, 0], [0, 1], [0, 2], [0, 3],
+      [1, 0]
+    ]);
+    const capacities = { left: [3, 1], right: 1 };
+
+    const matching = new BMatchingSolver(graph, capacities).findMaximumMatching();
+
+    expect(matching.size).toBe(4);
+    expect(matching.partnersLeft[1]).toEqual([0]);
+    expect(matching.partnersLeft[0]).toEqual([1, 2, 3]);
+    expect(matching.partnersRight).toEqual([[1], [0], [0], [0]]);
+  });
+
+  test("finds perfect b-matchings when every vertex can be filled", () => {
+    // Rooms 0 and 1 each hold two of the four exams
+    const graph = createBipartiteGraph(2, 4, [
+      [0, 0], [0, 1], [0, 2],
+      [1, 1], [1, 2], [1, 3]
+    ]);
+
+    const perfect = new BMatchingSolver(graph, { left: 2 }).findPerfectMatching();
+    expect(perfect?.size).toBe(4);
+    expect(perfect?.partnersRight.every(partners => partners.length === 1)).toBe(true);
+
+    expect(new BMatchingSolver(graph, { left: 3 }).findPerfectMatching()).toBeNull();
+  });
+
+  test("matches HopcroftKarp when all capacities are 1", () => {
+    const graph = createBipartiteGraph(4, 4, [
+      [0, 0], [0, 1],
+      [1, 0],
+      [2, 2], [2, 3],
+      [3, 2]
+    ]);
+
+    const matching = new BMatchingSolver(graph).findMaximumMatching();
+
+    expect(matching.size).toBe(new HopcroftKarp(graph).findMaximumMatching().size);
+  });
+
+  test("assigns each pair at most once despite parallel edges", () => {
+    const graph = createBipartiteGraph(1, 1, [[0, 0], [0, 0]]);
+
+    const matching = new BMatchingSolver(graph, { left: 2, right: 2 }).findMaximumMatching();
+
+    expect(matching.size).toBe(1);
+    expect(matching.partnersLeft).toEqual([[0]]);
+  });
+
+  test("leaves zero-capacity vertices unmatched", () => {
+    const graph = createBipartiteGraph(2, 1, [[0, 0], [1, 0]]);
+
+    const matching = new BMatchingSolver(graph, { left: [0, 1] }).findMaximumMatching();
+
+    expect(matching.partnersRight).toEqual([[1]]);
+  });
+
+  test("agrees with brute force on random graphs", () => {
+    const random = createRandom(5);
+
+    for (let trial = 0; trial < 100; trial++) {
+      const leftSize = 1 + random(4);
+      const rightSize = 1 + random(4);
+      const graph = randomDenseGraph(random, leftSize, rightSize, 2);
+      const left = Array.from({ length: leftSize }, () => random(4));
+      const right = Array.from({ length: rightSize }, () => random(4));
+
+      const matching = new BMatchingSolver(graph, { left, right }).findMaximumMatching();
+
+      expectValid(graph, matching, left, right);
+      expect(matching.size).toBe(bruteForce(graph, left, right));
+    }
+  });
+
+  test("handles large graphs", () => {
+    // 50k nurses covering up to 3 of 150k shifts each, with 4 candidate nurses per shift
+    const nurses = 50_000;
+    const shifts = 3 * nurses;
+    const edges: [number, number][] = [];
+    for (let v = 0; v < shifts; v++) {
+      for (let k = 0; k < 4; k++) {
+        edges.push([(v * 7 + k * 12_289) % nurses, v]);
+      }
+    }
+    const graph = createBipartiteGraph(nurses, shifts, edges);
+
+    const matching = new BMatchingSolver(graph, { left: 3 }).findMaximumMatching();
+
+    expect(matching.size).toBeLessThanOrEqual(shifts);
+    expect(matching.partnersLeft.every(partners => partners.length <= 3)).toBe(true);
+    expect(matching.partnersRight.every(partners => partners.length <= 1)).toBe(true);
+  });
+
+  test("validates capacities", () => {
+    const graph = createBipartiteGraph(2, 1, [[0, 0]]);
+
+    expect(() => new BMatchingSolver(graph, { left: [1] })).toThrow(BipartiteGraphError);
+    expect(() => new BMatchingSolver(graph, { left: [1] })).toThrow("Expected 2 left capacities, got 1");
+    expect(() => new BMatchingSolver(graph, { right: -1 })).toThrow(
+      "Invalid capacity -1 for right node 0: must be a non-negative integer"
+    );
+    expect(() => new BMatchingSolver(graph, { left: 1.5 })).toThrow(BipartiteGraphError);
+  });
+});
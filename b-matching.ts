@@ -0,0 +1,280 @@
+/**
+ * Capacitated bipartite matching (b-matching), where each vertex may take up
+ * to a given number of partners, e.g. a nurse covering up to 3 shifts.
+ *
+ * Solved as a maximum flow from a source through the left nodes (capacity
+ * b(u)), each edge (capacity 1) and the right nodes (capacity b(v)) to a sink,
+ * using Dinic's algorithm. With all capacities 1 this is exactly Hopcroft-Karp,
+ * and unlike cloning each vertex b times the network stays the size of the
+ * graph.
+ */
+
+import { BipartiteGraph, BipartiteGraphError } from "./hopkroft-karp";
+
+/**
+ * Capacities of the vertices, as one number for the whole side or one per
+ * vertex.
+ */
+export interface BMatchingCapacities {
+  /** Maximum number of partners of each left node (default: 1) */
+  left?: number | readonly number[];
+  /** Maximum number of partners of each right node (default: 1) */
+  right?: number | readonly number[];
+}
+
+export interface BMatching {
+  /** partnersLeft[u] lists the right nodes assigned to left node u, in the order of graph.edges[u] */
+  readonly partnersLeft: readonly (readonly number[])[];
+  /** partnersRight[v] lists the left nodes assigned to right node v, in increasing order */
+  readonly partnersRight: readonly (readonly number[])[];
+  /** Total number of assigned pairs */
+  readonly size: number;
+}
+
+export class BMatchingSolver {
+  private readonly graph: BipartiteGraph;
+  private readonly leftCapacity: Int32Array;
+  private readonly rightCapacity: Int32Array;
+  private result: BMatching | null = null;
+
+  /**
+   * @param graph The bipartite graph; parallel edges are treated as one, so each pair is assigned at most once
+   * @param capacities Maximum number of partners per vertex
+   * @throws {BipartiteGraphError} If a capacity is not a non-negative integer or a capacity list has the wrong length
+   */
+  constructor(graph: BipartiteGraph, capacities: BMatchingCapacities = {}) {
+    this.graph = graph;
+    this.leftCapacity = expandCapacities(capacities.left ?? 1, graph.leftSize, "left");
+    this.rightCapacity = expandCapacities(capacities.right ?? 1, graph.rightSize, "right");
+  }
+
+  /**
+   * Finds an assignment with every vertex at capacity, if one exists, otherwise null.
+   */
+  findPerfectMatching(): BMatching | null {
+    const matching = this.findMaximumMatching();
+    const total = (capacities: Int32Array): number => capacities.reduce((sum, c) => sum + c, 0);
+
+    if (matching.size === total(this.leftCapacity) && matching.size === total(this.rightCapacity)) {
+      return matching;
+    }
+
+    return null;
+  }
+
+  /**
+   * Finds an assignment with the largest number of pairs that respects all capacities.
+   */
+  findMaximumMatching(): BMatching {
+    if (this.result === null) {
+      this.result = this.solve();
+    }
+    return this.result;
+  }
+
+  private solve(): BMatching {
+    const { leftSize, rightSize, edges } = this.graph;
+    const network = new FlowNetwork(leftSize + rightSize + 2);
+    const source = leftSize + rightSize;
+    const sink = source + 1;
+
+    for (let u = 0; u < leftSize; u++) {
+      network.addArc(source, u, this.leftCapacity[u]);
+    }
+
+    // Arc index of each distinct edge, to read back the flow
+    const edgeArcs: number[][] = [];
+    const seen = new Int32Array(rightSize).fill(-1);
+    for (let u = 0; u < leftSize; u++) {
+      const arcs: number[] = [];
+      for (const v of edges[u]) {
+        if (seen[v] !== u) {
+          seen[v] = u;
+          arcs.push(network.addArc(u, leftSize + v, 1));
+        } else {
+          arcs.push(-1);
+        }
+      }
+      edgeArcs.push(arcs);
+    }
+
+    for (let v = 0; v < rightSize; v++) {
+      network.addArc(leftSize + v, sink, this.rightCapacity[v]);
+    }
+
+    const size = network.maxFlow(source, sink);
+
+    const partnersLeft: number[][] = [];
+    const partnersRight: number[][] = Array.from({ length: rightSize }, () => []);
+    for (let u = 0; u < leftSize; u++) {
+      const partners: number[] = [];
+      edgeArcs[u].forEach((arc, i) => {
+        if (arc !== -1 && network.flow(arc) > 0) {
+          partners.push(edges[u][i]);
+          partnersRight[edges[u][i]].push(u);
+        }
+      });
+      partnersLeft.push(partners);
+    }
+
+    return { partnersLeft, partnersRight, size };
+  }
+}
+
+function expandCapacities(
+  capacities: number | readonly number[],
+  size: number,
+  side: "left" | "right"
+): Int32Array {
+  if (typeof capacities !== "number" && capacities.length !== size) {
+    throw new BipartiteGraphError(
+      `Expected ${size} ${side} capacities, got ${capacities.length}`
+    );
+  }
+
+  const result = new Int32Array(size);
+  for (let i = 0; i < size; i++) {
+    const capacity = typeof capacities === "number" ? capacities : capacities[i];
+    if (!Number.isInteger(capacity) || capacity < 0 || capacity > 0x7fffffff) {
+      throw new BipartiteGraphError(
+        `Invalid capacity ${capacity} for ${side} node ${i}: must be a non-negative integer`
+      );
+    }
+    result[i] = capacity;
+  }
+  return result;
+}
+
+/**
+ * A flow network with integer capacities, solved with Dinic's algorithm.
+ * Arcs are stored in pairs, so arc a ^ 1 is the reverse of arc a.
+ */
+class FlowNetwork {
+  private readonly nodeCount: number;
+  private readonly head: Int32Array;
+  private next: Int32Array = new Int32Array(16);
+  private to: Int32Array = new Int32Array(16);
+  private capacity: Int32Array = new Int32Array(16);
+  private original: Int32Array = new Int32Array(16);
+  private arcCount = 0;
+
+  constructor(nodeCount: number) {
+    this.nodeCount = nodeCount;
+    this.head = new Int32Array(nodeCount).fill(-1);
+  }
+
+  /**
+   * Adds an arc and its zero-capacity reverse.
+   *
+   * @returns The index of the arc
+   */
+  addArc(from: number, to: number, capacity: number): number {
+    if (this.arcCount + 2 > this.to.length) {
+      const grow = (array: Int32Array): Int32Array => {
+        const larger = new Int32Array(array.length * 2);
+        larger.set(array);
+        return larger;
+      };
+      this.next = grow(this.next);
+      this.to = grow(this.to);
+      this.capacity = grow(this.capacity);
+      this.original = grow(this.original);
+    }
+
+    const arc = this.arcCount;
+    this.link(arc, from, to, capacity);
+    this.link(arc + 1, to, from, 0);
+    this.arcCount += 2;
+    return arc;
+  }
+
+  /** Flow currently routed along an arc */
+  flow(arc: number): number {
+    return this.original[arc] - this.capacity[arc];
+  }
+
+  maxFlow(source: number, sink: number): number {
+    const n = this.nodeCount;
+    const level = new Int32Array(n);
+    const queue = new Int32Array(n);
+    const cursor = new Int32Array(n);
+    // Arcs of the current path from the source
+    const path = new Int32Array(n);
+    let total = 0;
+
+    for (;;) {
+      // Breadth-first search: level graph of residual arcs
+      level.fill(-1);
+      level[source] = 0;
+      let tail = 0;
+      queue[tail++] = source;
+      for (let head = 0; head < tail; head++) {
+        const u = queue[head];
+        for (let arc = this.head[u]; arc !== -1; arc = this.next[arc]) {
+          const w = this.to[arc];
+          if (this.capacity[arc] > 0 && level[w] === -1) {
+            level[w] = level[u] + 1;
+            queue[tail++] = w;
+          }
+        }
+      }
+      if (level[sink] === -1) {
+        return total;
+      }
+
+      // Depth-first search for a blocking flow, with an explicit path and arc cursors
+      cursor.set(this.head);
+      let depth = 0;
+      let u = source;
+      for (;;) {
+        if (u === sink) {
+          let bottleneck = 0x7fffffff;
+          for (let i = 0; i < depth; i++) {
+            bottleneck = Math.min(bottleneck, this.capacity[path[i]]);
+          }
+          let retreat = depth;
+          for (let i = depth - 1; i >= 0; i--) {
+            const arc = path[i];
+            this.capacity[arc] -= bottleneck;
+            this.capacity[arc ^ 1] += bottleneck;
+            if (this.capacity[arc] === 0) {
+              retreat = i;
+            }
+          }
+          total += bottleneck;
+          // Resume from the tail of the first saturated arc
+          depth = retreat;
+          u = depth === 0 ? source : this.to[path[depth - 1]];
+          continue;
+        }
+
+        let arc = cursor[u];
+        while (arc !== -1 && (this.capacity[arc] === 0 || level[this.to[arc]] !== level[u] + 1)) {
+          arc = this.next[arc];
+        }
+        cursor[u] = arc;
+
+        if (arc !== -1) {
+          path[depth++] = arc;
+          u = this.to[arc];
+        } else {
+          // Dead end: remove u from the level graph and step back
+          level[u] = -1;
+          if (depth === 0) {
+            break;
+          }
+          u = this.to[path[--depth] ^ 1];
+          cursor[u] = this.next[cursor[u]];
+        }
+      }
+    }
+  }
+
+  private link(arc: number, from: number, to: number, capacity: number): void {
+    this.to[arc] = to;
+    this.capacity[arc] = capacity;
+    this.original[arc] = capacity;
+    this.next[arc] = this.head[from];
+    this.head[from] = arc;
+  }
+}
@@ -0,0 +1,100 @@
+import { describe, test, expect } from "bun:test";
+
+import { createBipartition, createGeneralGraph, findBipartition, OddCycleError, toBipartition } from "./bipartition";
+import { BipartiteGraphError, HopcroftKarp } from "./hopkroft-karp";
+
+/**
+ * Expects fn to throw an OddCycleError whose cycle is odd and made of edges of the list.
+ */
+function expectOddCycle(fn: () => unknown, edges: readonly [number, number][]): readonly number[] {
+  let cycle: readonly number[] = [];
+  try {
+    fn();
+  } catch (error) {
+    expect(error).toBeInstanceOf(OddCycleError);
+    expect(error).toBeInstanceOf(BipartiteGraphError);
+    cycle = (error as OddCycleError).cycle;
+  }
+  expect(cycle.length % 2).toBe(1);
+  expect(new Set(cycle).size).toBe(cycle.length);
+  cycle.forEach((x, i) => {
+    const y = cycle[(i + 1) % cycle.length];
+    expect(edges.some(([a, b]) => (a === x && b === y) || (a === y && b === x))).toBe(true);
+  });
+  return cycle;
+}
+
+describe("createBipartition", () => {
+  test("splits an even cycle into two sides", () => {
+    const bipartition = createBipartition(4, [[0, 1], [1, 2], [2, 3], [3, 0]]);
+
+    expect(bipartition).toEqual({
+      graph: { leftSize: 2, rightSize: 2, edges: [[0, 1], [0, 1]] },
+      side: [0, 1, 0, 1],
+      index: [0, 0, 1, 1],
+      left: [0, 2],
+      right: [1, 3]
+    });
+  });
+
+  test("puts the lowest vertex of each component on the left", () => {
+    const { side, left, right } = createBipartition(5, [[1, 0], [3, 2]]);
+
+    expect(side).toEqual([0, 1, 0, 1, 0]);
+    expect(left).toEqual([0, 2, 4]);
+    expect(right).toEqual([1, 3]);
+  });
+
+  test("produces a graph that can be matched", () => {
+    // People 0-5, where each pair may work together: a path 0-1-2-3-4-5
+    const { graph, left, right } = createBipartition(6, [[0, 1], [2, 1], [2, 3], [4, 3], [4, 5]]);
+
+    const matching = new HopcroftKarp(graph).findPerfectMatching();
+
+    expect(matching?.matchLeft.map((v, u) => [left[u], right[v]])).toEqual([[0, 1], [2, 3], [4, 5]]);
+  });
+
+  test("throws an odd cycle for a triangle", () => {
+    const edges: [number, number][] = [[0, 1], [1, 2], [2, 0]];
+
+    expect(() => createBipartition(3, edges)).toThrow("Graph is not bipartite: odd cycle");
+    expect(expectOddCycle(() => createBipartition(3, edges), edges)).toHaveLength(3);
+  });
+
+  test("finds odd cycles far from the first vertex", () => {
+    // A path 0-1-...-9 leading into a 5-cycle 9-10-11-12-13
+    const edges: [number, number][] = [];
+    for (let x = 0; x < 9; x++) {
+      edges.push([x, x + 1]);
+    }
+    edges.push([9, 10], [10, 11], [11, 12], [12, 13], [13, 9]);
+
+    const cycle = expectOddCycle(() => createBipartition(14, edges), edges);
+
+    expect([...cycle].sort((a, b) => a - b)).toEqual([9, 10, 11, 12, 13]);
+  });
+
+  test("validates edges like createGeneralGraph", () => {
+    expect(() => createBipartition(2, [[0, 2]], { skipInvalidEdges: false })).toThrow(BipartiteGraphError);
+    expect(createBipartition(2, [[0, 2], [0, 1]]).graph.edges).toEqual([[0]]);
+  });
+});
+
+describe("findBipartition", () => {
+  test("returns null instead of throwing", () => {
+    const triangle = createGeneralGraph(3, [[0, 1], [1, 2], [2, 0]]);
+
+    expect(findBipartition(triangle)).toBeNull();
+    expect(() => toBipartition(triangle)).toThrow(OddCycleError);
+  });
+
+  test("handles empty graphs", () => {
+    expect(findBipartition(createGeneralGraph(0, []))).toEqual({
+      graph: { leftSize: 0, rightSize: 0, edges: [] },
+      side: [],
+      index: [],
+      left: [],
+      right: []
+    });
+  });
+});
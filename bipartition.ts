@@ -0,0 +1,204 @@
+/**
+ * Bipartite graphs from plain undirected edge lists, for data that does not
+ * come split into two sides (e.g. relationship tables).
+ *
+ * The vertices are two-coloured by breadth-first search. A graph is
+ * bipartite exactly when it has no odd cycle, and when the colouring fails
+ * the breadth-first tree yields one as proof.
+ *
+ * GeneralGraph lives here rather than in ./general-matching, which builds on
+ * this module and re-exports it.
+ */
+
+import { BipartiteGraph, BipartiteGraphError, BipartiteGraphOptions } from "./hopkroft-karp";
+
+export interface GeneralGraph {
+  /** Number of vertices */
+  readonly size: number;
+  /** Adjacency list: edges[u] contains all neighbours of u, so every edge appears at both of its ends */
+  readonly edges: readonly (readonly number[])[];
+}
+
+/**
+ * Helper function to create a general graph from an undirected edge list.
+ *
+ * @param size Number of vertices
+ * @param edges Array of edges, each listed once in either direction
+ * @param options Configuration options; self-loops count as invalid edges
+ * @returns A GeneralGraph object
+ * @throws {BipartiteGraphError} If input validation fails and options.skipInvalidEdges is false
+ */
+export function createGeneralGraph(
+  size: number,
+  edges: readonly [number, number][],
+  options: BipartiteGraphOptions = {}
+): GeneralGraph {
+  const { validateInput = true, skipInvalidEdges = true } = options;
+
+  if (validateInput && !(Number.isInteger(size) && size >= 0)) {
+    throw new BipartiteGraphError(`size must be a non-negative integer, got ${size}`);
+  }
+
+  const adjacencyList: number[][] = Array.from({ length: size }, () => []);
+
+  for (const [u, v] of edges) {
+    if (u < 0 || u >= size || v < 0 || v >= size || u === v) {
+      if (validateInput && !skipInvalidEdges) {
+        throw new BipartiteGraphError(
+          u === v
+            ? `Invalid edge [${u}, ${v}]: a vertex cannot be matched to itself`
+            : `Invalid edge [${u}, ${v}]: indices must be within range [0, ${size - 1}]`
+        );
+      }
+      continue;
+    }
+
+    adjacencyList[u].push(v);
+    adjacencyList[v].push(u);
+  }
+
+  return { size, edges: adjacencyList };
+}
+
+/**
+ * A split of the vertices of an undirected graph into two sides, with every
+ * edge between them.
+ */
+export interface Bipartition {
+  /** The graph with the vertices of side 0 as left nodes and those of side 1 as right nodes */
+  readonly graph: BipartiteGraph;
+  /** side[x] is 0 if vertex x is a left node, 1 if it is a right node */
+  readonly side: readonly number[];
+  /** index[x] is the index of vertex x within its side */
+  readonly index: readonly number[];
+  /** left[u] is the vertex that is left node u */
+  readonly left: readonly number[];
+  /** right[v] is the vertex that is right node v */
+  readonly right: readonly number[];
+}
+
+/**
+ * Error thrown when a graph that must be bipartite has an odd cycle.
+ */
+export class OddCycleError extends BipartiteGraphError {
+  /**
+   * @param cycle Vertices of the cycle in order; the last one is adjacent to the first
+   */
+  constructor(readonly cycle: readonly number[]) {
+    super(`Graph is not bipartite: odd cycle ${[...cycle, cycle[0]].join(" -> ")}`);
+    this.name = "OddCycleError";
+  }
+}
+
+/**
+ * Builds a bipartite graph from an undirected edge list.
+ *
+ * @param size Number of vertices
+ * @param edges Array of edges, each listed once in either direction
+ * @param options Configuration options, as for createGeneralGraph
+ * @returns The bipartite graph and the side and index of each vertex in it
+ * @throws {OddCycleError} If the graph has an odd cycle
+ * @throws {BipartiteGraphError} If input validation fails and options.skipInvalidEdges is false
+ */
+export function createBipartition(
+  size: number,
+  edges: readonly [number, number][],
+  options: BipartiteGraphOptions = {}
+): Bipartition {
+  return toBipartition(createGeneralGraph(size, edges, options));
+}
+
+/**
+ * Splits a general graph into two sides. Within each connected component,
+ * the lowest vertex is a left node.
+ *
+ * @param graph Graph to split
+ * @returns The bipartite graph and the side and index of each vertex in it
+ * @throws {OddCycleError} If the graph has an odd cycle
+ */
+export function toBipartition(graph: GeneralGraph): Bipartition {
+  const colouring = twoColour(graph);
+  if ("cycle" in colouring) {
+    throw new OddCycleError(colouring.cycle);
+  }
+  return colouring;
+}
+
+/**
+ * Like toBipartition, but returns null if the graph has an odd cycle.
+ */
+export function findBipartition(graph: GeneralGraph): Bipartition | null {
+  const colouring = twoColour(graph);
+  return "cycle" in colouring ? null : colouring;
+}
+
+function twoColour(graph: GeneralGraph): Bipartition | { cycle: number[] } {
+  const { size, edges } = graph;
+  const side: number[] = new Array(size).fill(-1);
+  // Breadth-first tree: side[x] is the parity of depth[x]
+  const parent = new Int32Array(size);
+  const depth = new Int32Array(size);
+  const queue = new Int32Array(size);
+
+  for (let root = 0; root < size; root++) {
+    if (side[root] !== -1) {
+      continue;
+    }
+    side[root] = 0;
+    parent[root] = -1;
+    depth[root] = 0;
+    let head = 0;
+    let tail = 0;
+    queue[tail++] = root;
+
+    while (head < tail) {
+      const x = queue[head++];
+      for (const y of edges[x]) {
+        if (side[y] === -1) {
+          side[y] = 1 - side[x];
+          parent[y] = x;
+          depth[y] = depth[x] + 1;
+          queue[tail++] = y;
+        } else if (side[y] === side[x]) {
+          return { cycle: treeCycle(x, y, parent, depth) };
+        }
+      }
+    }
+  }
+
+  const left: number[] = [];
+  const right: number[] = [];
+  const index = side.map((s, x) => (s === 0 ? left.push(x) : right.push(x)) - 1);
+
+  return {
+    graph: {
+      leftSize: left.length,
+      rightSize: right.length,
+      edges: left.map(x => edges[x].map(y => index[y]))
+    },
+    side,
+    index,
+    left,
+    right
+  };
+}
+
+/**
+ * The cycle closed by the edge between x and y, whose depths in the tree
+ * have the same parity, so it has odd length: from x up to their lowest
+ * common ancestor, then down to y.
+ */
+function treeCycle(x: number, y: number, parent: Int32Array, depth: Int32Array): number[] {
+  const up: number[] = [];
+  const down: number[] = [];
+  while (x !== y) {
+    if (depth[x] >= depth[y]) {
+      up.push(x);
+      x = parent[x];
+    } else {
+      down.push(y);
+      y = parent[y];
+    }
+  }
+  return [...up, x, ...down.reverse()];
+}
@@ -0,0 +1,143 @@
+import { describe, test, expect } from "bun:test";
+
+import {
+  BipartiteGraph,
+  BipartiteGraphError,
+  HopcroftKarp,
+  createBipartiteGraph
+} from "./hopkroft-karp";
+import { MatchingCertificate, certifyMatching } from "./certificate";
+
+/**
+ * Checks that the cover touches every edge and has the size of the matching.
+ */
+function expectValidCover(graph: BipartiteGraph, certificate: MatchingCertificate): void {
+  const { left, right } = certificate.vertexCover;
+  expect(left.length + right.length).toBe(certificate.matching.size);
+
+  for (let u = 0; u < graph.leftSize; u++) {
+    for (const v of graph.edges[u]) {
+      expect(left.includes(u) || right.includes(v)).toBe(true);
+    }
+  }
+}
+
+describe("certifyMatching", () => {
+  test("perfect matching has no Hall violator", () => {
+    const graph = createBipartiteGraph(3, 3, [
+      [0, 0], [0, 1],
+      [1, 1], [1, 2],
+      [2, 0], [2, 2]
+    ]);
+
+    const certificate = certifyMatching(graph);
+
+    expect(certificate.matching.size).toBe(3);
+    expect(certificate.hallViolator).toBeNull();
+    expectValidCover(graph, certificate);
+  });
+
+  test("explains a missing perfect matching with left vertices", () => {
+    // Left nodes 0, 1 and 2 can only be matched with right node 0
+    const graph = createBipartiteGraph(3, 3, [
+      [0, 0],
+      [1, 0],
+      [2, 0], [2, 1]
+    ]);
+
+    const certificate = certifyMatching(graph);
+    const violator = certificate.hallViolator;
+
+    expect(certificate.matching.size).toBe(2);
+    expectValidCover(graph, certificate);
+    expect(violator?.side).toBe("left");
+    expect(violator?.neighbours).toEqual([0]);
+    expect(violator?.vertices).toHaveLength(2);
+  });
+
+  test("explains a missing perfect matching with right vertices", () => {
+    // Every left node is matched but right nodes 1 and 2 share left node 1
+    const graph = createBipartiteGraph(2, 3, [
+      [0, 0],
+      [1, 1], [1, 2]
+    ]);
+
+    const certificate = certifyMatching(graph);
+
+    expect(certificate.matching.size).toBe(2);
+    expectValidCover(graph, certificate);
+    expect(certificate.hallViolator).toEqual({
+      side: "right",
+      vertices: [1, 2],
+      neighbours: [1]
+    });
+  });
+
+  test("explains unbalanced graphs", () => {
+    const graph = createBipartiteGraph(2, 3, [
+      [0, 0], [0, 1], [0, 2],
+      [1, 0], [1, 1], [1, 2]
+    ]);
+
+    const certificate = certifyMatching(graph);
+
+    expect(certificate.hallViolator?.side).toBe("right");
+    expect(certificate.hallViolator?.vertices).toEqual([0, 1, 2]);
+    expect(certificate.hallViolator?.neighbours).toEqual([0, 1]);
+  });
+
+  test("isolated vertex is its own violator", () => {
+    const graph = createBipartiteGraph(2, 2, [[0, 0], [0, 1]]);
+
+    const certificate = certifyMatching(graph);
+
+    expect(certificate.hallViolator).toEqual({
+      side: "left",
+      vertices: [1],
+      neighbours: []
+    });
+  });
+
+  test("accepts a precomputed maximum matching", () => {
+    const graph = createBipartiteGraph(2, 2, [[0, 0], [1, 0]]);
+    const matching = new HopcroftKarp(graph).findMaximumMatching();
+
+    const certificate = certifyMatching(graph, matching);
+
+    expect(certificate.matching).toBe(matching);
+    expectValidCover(graph, certificate);
+  });
+
+  test("throws error for a matching that is not maximum", () => {
+    const graph = createBipartiteGraph(2, 2, [[0, 0], [1, 1]]);
+    const hk = new HopcroftKarp(graph, { initialMatching: { matchLeft: [0, -1] } });
+
+    expect(() => certifyMatching(graph, hk.getMatching())).toThrow(BipartiteGraphError);
+  });
+
+  test("throws error for an invalid matching", () => {
+    const graph = createBipartiteGraph(2, 2, [[0, 0], [1, 1]]);
+
+    // [0, 1] is not an edge
+    expect(() => certifyMatching(graph, { matchLeft: [1, -1], matchRight: [-1, 0], size: 1 }))
+      .toThrow("Invalid matching");
+    // matchRight disagrees with matchLeft
+    expect(() => certifyMatching(graph, { matchLeft: [0, 1], matchRight: [0, -1], size: 2 }))
+      .toThrow("Invalid matching");
+  });
+
+  test("vertex cover matches matching size on larger graphs", () => {
+    const edges: [number, number][] = [];
+    for (let u = 0; u < 30; u++) {
+      edges.push([u, (u * 7) % 20], [u, (u * 3 + 1) % 20]);
+    }
+    const graph = createBipartiteGraph(30, 20, edges);
+
+    const certificate = certifyMatching(graph);
+    const violator = certificate.hallViolator;
+
+    expectValidCover(graph, certificate);
+    expect(violator).not.toBeNull();
+    expect(violator?.neighbours.length).toBe((violator?.vertices.length ?? 0) - 1);
+  });
+});
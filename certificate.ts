@@ -0,0 +1,146 @@
+/**
+ * Certificates explaining a maximum matching: a minimum vertex cover of the
+ * same size (König's theorem) and, when no perfect matching exists, a set of
+ * vertices violating Hall's condition.
+ */
+
+import {
+  BipartiteGraph,
+  BipartiteGraphError,
+  HopcroftKarp,
+  Matching
+} from "./hopkroft-karp";
+import { assertValidMatching } from "./verify";
+
+export interface VertexCover {
+  /** Left nodes in the cover */
+  readonly left: readonly number[];
+  /** Right nodes in the cover */
+  readonly right: readonly number[];
+}
+
+/**
+ * A set of vertices on one side with fewer neighbours than members, proving
+ * that not all of them can be matched.
+ */
+export interface HallViolator {
+  /** Side the vertices belong to */
+  readonly side: "left" | "right";
+  /** Vertices that cannot all be matched */
+  readonly vertices: readonly number[];
+  /** All their neighbours on the other side; always fewer than vertices */
+  readonly neighbours: readonly number[];
+}
+
+export interface MatchingCertificate {
+  /** The maximum matching being certified */
+  readonly matching: Matching;
+  /** Minimum vertex cover, of the same size as the matching */
+  readonly vertexCover: VertexCover;
+  /** Proof that no perfect matching exists, or null if the matching is perfect */
+  readonly hallViolator: HallViolator | null;
+}
+
+/**
+ * Certifies that a matching is maximum and explains why it is not perfect.
+ *
+ * The Hall violator is grown from a single unmatched vertex, so its
+ * neighbourhood is exactly one vertex short: the smallest explanation of the
+ * form "these k vertices can only be matched with these k - 1".
+ *
+ * @param graph The bipartite graph
+ * @param matching A maximum matching of the graph (computed if omitted)
+ * @returns The matching with its vertex cover and Hall violator
+ * @throws {BipartiteGraphError} If the given matching is invalid for the graph or not maximum
+ */
+export function certifyMatching(graph: BipartiteGraph, matching?: Matching): MatchingCertificate {
+  if (matching === undefined) {
+    matching = new HopcroftKarp(graph).findMaximumMatching();
+  } else {
+    assertValidMatching(graph, matching);
+  }
+
+  const freeLeft: number[] = [];
+  for (let u = 0; u < graph.leftSize; u++) {
+    if (matching.matchLeft[u] === -1) {
+      freeLeft.push(u);
+    }
+  }
+
+  const reached = alternatingReach(graph.edges, matching.matchRight, freeLeft);
+  const reachedRight = reached.right.filter(v => matching.matchRight[v] === -1);
+  if (reachedRight.length > 0) {
+    throw new BipartiteGraphError(
+      `Matching is not maximum: right node ${reachedRight[0]} is reachable by an augmenting path`
+    );
+  }
+
+  // König: unreached left nodes plus reached right nodes cover every edge
+  const reachedLeft = new Set(reached.left);
+  const vertexCover: VertexCover = {
+    left: range(graph.leftSize).filter(u => !reachedLeft.has(u)),
+    right: reached.right
+  };
+
+  let hallViolator: HallViolator | null = null;
+  if (freeLeft.length > 0) {
+    const { left, right } = alternatingReach(graph.edges, matching.matchRight, [freeLeft[0]]);
+    hallViolator = { side: "left", vertices: left, neighbours: right };
+  } else if (matching.size < graph.rightSize) {
+    const freeRight = matching.matchRight.indexOf(-1);
+    const { left, right } = alternatingReach(reverseEdges(graph), matching.matchLeft, [freeRight]);
+    hallViolator = { side: "right", vertices: left, neighbours: right };
+  }
+
+  return { matching, vertexCover, hallViolator };
+}
+
+/**
+ * Collects the vertices reachable from the roots by alternating paths, which
+ * leave a root side node along any edge and return along matched edges.
+ *
+ * @returns Reached nodes on the roots' side (left) and the other side (right), sorted
+ */
+function alternatingReach(
+  edges: readonly (readonly number[])[],
+  matchOther: readonly number[],
+  roots: readonly number[]
+): { left: number[]; right: number[] } {
+  const visitedLeft = new Set(roots);
+  const visitedRight = new Set<number>();
+  const queue = [...roots];
+
+  for (let head = 0; head < queue.length; head++) {
+    for (const v of edges[queue[head]]) {
+      if (visitedRight.has(v)) {
+        continue;
+      }
+      visitedRight.add(v);
+
+      const next = matchOther[v];
+      if (next !== -1 && !visitedLeft.has(next)) {
+        visitedLeft.add(next);
+        queue.push(next);
+      }
+    }
+  }
+
+  return {
+    left: [...visitedLeft].sort((a, b) => a - b),
+    right: [...visitedRight].sort((a, b) => a - b)
+  };
+}
+
+function reverseEdges(graph: BipartiteGraph): number[][] {
+  const reversed: number[][] = Array.from({ length: graph.rightSize }, () => []);
+  for (let u = 0; u < graph.leftSize; u++) {
+    for (const v of graph.edges[u]) {
+      reversed[v].push(u);
+    }
+  }
+  return reversed;
+}
+
+function range(n: number): number[] {
+  return Array.from({ length: n }, (_, i) => i);
+}
@@ -0,0 +1,204 @@
+import { describe, test, expect } from "bun:test";
+
+import { CliIo, EXIT_NO_PERFECT_MATCHING, EXIT_OK, EXIT_USAGE, main } from "./cli";
+
+/**
+ * Runs the CLI against in-memory files and captures its output.
+ */
+async function run(
+  argv: string[],
+  files: Record<string, string> = {},
+  stdin = ""
+): Promise<{ code: number; stdout: string; stderr: string }> {
+  let stdout = "";
+  let stderr = "";
+  const io: CliIo = {
+    stdout: text => { stdout += text; },
+    stderr: text => { stderr += text; },
+    readFile: async path => {
+      if (!(path in files)) {
+        throw new Error(`ENOENT: no such file or directory, open '${path}'`);
+      }
+      return files[path];
+    },
+    readStdin: async () => stdin
+  };
+  const code = await main(argv, io);
+  return { code, stdout, stderr };
+}
+
+const perfect = "0 0\n0 1\n1 1\n1 2\n2 0\n2 2\n";
+const imperfect = JSON.stringify({ leftSize: 3, rightSize: 3, edges: [[0, 0], [1, 0], [2, 1]] });
+
+describe("hk solve", () => {
+  test("prints a matching as text", async () => {
+    const { code, stdout } = await run(["solve", "graph.txt"], { "graph.txt": perfect });
+
+    expect(code).toBe(EXIT_OK);
+    expect(stdout.split("\n")[0]).toBe("Matching size: 3 (perfect)");
+    expect(stdout.split("\n").filter(line => line.includes("->"))).toHaveLength(3);
+  });
+
+  test("prints a matching as JSON", async () => {
+    const { code, stdout } = await run(["solve", "graph.json", "--output", "json"], {
+      "graph.json": imperfect
+    });
+
+    const result = JSON.parse(stdout);
+    expect(code).toBe(EXIT_OK);
+    expect(result.size).toBe(2);
+    expect(result.perfect).toBe(false);
+    expect(result.pairs).toContainEqual([2, 1]);
+  });
+
+  test("prints a matching as CSV", async () => {
+    const { stdout } = await run(["solve", "-o", "csv"], {}, "0 0\n");
+
+    expect(stdout).toBe("left,right\n0,0\n");
+  });
+
+  test("fails with --perfect when no perfect matching exists", async () => {
+    const files = { "graph.json": imperfect };
+
+    expect((await run(["solve", "graph.json", "--perfect"], files)).code).toBe(EXIT_NO_PERFECT_MATCHING);
+    expect((await run(["solve", "graph.json"], files)).code).toBe(EXIT_OK);
+  });
+
+  test("uses the chosen algorithm", async () => {
+    for (const algorithm of ["push-relabel", "pothen-fan", "kuhn"]) {
+      const { code, stdout } = await run(["solve", "-a", algorithm], {}, perfect);
+
+      expect(code).toBe(EXIT_OK);
+      expect(stdout.split("\n")[0]).toBe("Matching size: 3 (perfect)");
+    }
+  });
+});
+
+describe("hk check", () => {
+  test("succeeds when a perfect matching exists", async () => {
+    const { code, stdout } = await run(["check"], {}, perfect);
+
+    expect(code).toBe(EXIT_OK);
+    expect(stdout).toBe("Perfect matching exists (size 3)\n");
+  });
+
+  test("explains why no perfect matching exists", async () => {
+    const { code, stdout } = await run(["check", "graph.json"], { "graph.json": imperfect });
+
+    expect(code).toBe(EXIT_NO_PERFECT_MATCHING);
+    expect(stdout).toContain("maximum matching has size 2");
+    expect(stdout).toContain("left nodes 0, 1 only connect to right nodes 0");
+  });
+
+  test("reports the violator as JSON", async () => {
+    const { stdout } = await run(["check", "graph.json", "-o", "json"], { "graph.json": imperfect });
+
+    expect(JSON.parse(stdout)).toEqual({
+      perfect: false,
+      size: 2,
+      leftSize: 3,
+      rightSize: 3,
+      violatorSide: "left",
+      violatorVertices: [0, 1],
+      violatorNeighbours: [0]
+    });
+  });
+
+  test("reads other formats", async () => {
+    const dimacs = "p asn 4 2\nn 1\nn 2\na 1 3 0\na 2 3 0\n";
+
+    const { code, stdout } = await run(["check", "instance.asn"], { "instance.asn": dimacs });
+    expect(code).toBe(EXIT_NO_PERFECT_MATCHING);
+    expect(stdout).toContain("maximum matching has size 1");
+
+    const { stdout: forced } = await run(["stats", "--format", "dimacs", "-o", "json"], {}, dimacs);
+    expect(JSON.parse(forced).edges).toBe(2);
+  });
+
+  test("honours explicit node counts", async () => {
+    const { code } = await run(["check", "--left-size", "1", "--right-size", "2"], {}, "0 0\n");
+
+    expect(code).toBe(EXIT_NO_PERFECT_MATCHING);
+  });
+});
+
+describe("hk stats", () => {
+  test("prints graph statistics", async () => {
+    const { code, stdout } = await run(["stats", "-o", "json", "-"], {}, "0 0\n0 1\n# comment\n\n2,1\n");
+
+    expect(code).toBe(EXIT_OK);
+    expect(JSON.parse(stdout)).toEqual({
+      leftSize: 3,
+      rightSize: 2,
+      edges: 3,
+      isolatedLeft: 1,
+      isolatedRight: 0,
+      maxLeftDegree: 2,
+      maxRightDegree: 2,
+      matchingSize: 2,
+      perfect: false
+    });
+  });
+
+  test("prints CSV rows", async () => {
+    const { stdout } = await run(["stats", "-o", "csv"], {}, "0 0\n");
+
+    expect(stdout.split("\n").slice(0, 2)).toEqual(["key,value", "leftSize,1"]);
+  });
+});
+
+describe("errors", () => {
+  test("prints usage without arguments", async () => {
+    const { code, stdout } = await run([]);
+
+    expect(code).toBe(EXIT_USAGE);
+    expect(stdout).toContain("Usage: hk");
+  });
+
+  test("prints help", async () => {
+    const { code, stdout } = await run(["solve", "--help"]);
+
+    expect(code).toBe(EXIT_OK);
+    expect(stdout).toContain("Usage: hk");
+  });
+
+  test("rejects unknown commands and options", async () => {
+    const invalid = [
+      ["frobnicate"],
+      ["solve", "--verbose"],
+      ["solve", "-o", "xml"],
+      ["solve", "-f", "xml"],
+      ["solve", "--algorithm", "simplex"],
+      ["solve", "a", "b"]
+    ];
+    for (const argv of invalid) {
+      const { code, stderr } = await run(argv);
+
+      expect(code).toBe(EXIT_USAGE);
+      expect(stderr).toContain("Usage: hk");
+    }
+  });
+
+  test("reports missing files", async () => {
+    const { code, stderr } = await run(["solve", "missing.txt"]);
+
+    expect(code).toBe(EXIT_USAGE);
+    expect(stderr).toContain("ENOENT");
+  });
+
+  test("reports malformed input", async () => {
+    const cases: [string, string][] = [
+      ["0 0\n1\n", "Line 2, column 1: Expected 2 fields in edge, got 1"],
+      ["{ not json", "Invalid JSON"],
+      ['{"edges": [[0]]}', "edges[0] must be an array of 2 or 3 numbers"],
+      ['{"leftSize": 1, "rightSize": 1, "edges": [[0, 3]]}', "edges[0]: Right node 3 is out of range [0, 0]"]
+    ];
+
+    for (const [input, message] of cases) {
+      const { code, stderr } = await run(["solve"], {}, input);
+
+      expect(code).toBe(EXIT_USAGE);
+      expect(stderr).toContain(message);
+    }
+  });
+});
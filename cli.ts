@@ -0,0 +1,330 @@
+#!/usr/bin/env bun
+
+/**
+ * Command-line interface for solving matching instances from files or stdin.
+ *
+ *   hk solve [file] [--output json|csv|text] [--perfect]
+ *   hk check [file] [--output json|csv|text]
+ *   hk stats [file] [--output json|csv|text]
+ *
+ * Every command accepts --algorithm to pick the maximum matching algorithm.
+ *
+ * Graphs are read in any format supported by ./formats, detected from the
+ * file extension or contents unless --format is given. Node counts of edge
+ * lists default to the largest index seen plus one and can be overridden with
+ * --left-size and --right-size.
+ */
+
+import { certifyMatching } from "./certificate";
+import { detectGraphFormat, GraphFormat, parseGraph } from "./formats";
+import { BipartiteGraph, Matching } from "./hopkroft-karp";
+import { createSolver, SOLVER_NAMES, SolverName } from "./solvers";
+
+/** Exit code for success */
+export const EXIT_OK = 0;
+/** Exit code when a perfect matching was required but does not exist */
+export const EXIT_NO_PERFECT_MATCHING = 1;
+/** Exit code for invalid arguments or unreadable input */
+export const EXIT_USAGE = 2;
+
+/**
+ * The side effects of the CLI, replaceable for testing.
+ */
+export interface CliIo {
+  readonly stdout: (text: string) => void;
+  readonly stderr: (text: string) => void;
+  readonly readFile: (path: string) => Promise<string>;
+  readonly readStdin: () => Promise<string>;
+}
+
+type OutputFormat = "json" | "csv" | "text";
+
+const INPUT_FORMATS: readonly (GraphFormat | "auto")[] = ["auto", "json", "dimacs", "matrix-market", "csv", "tsv"];
+
+interface CliOptions {
+  readonly command: "solve" | "check" | "stats";
+  readonly file: string | undefined;
+  readonly format: GraphFormat | "auto";
+  readonly output: OutputFormat;
+  readonly perfect: boolean;
+  readonly algorithm: SolverName;
+  readonly leftSize: number | undefined;
+  readonly rightSize: number | undefined;
+}
+
+/**
+ * Raised for invalid command-line arguments; reported with the usage text.
+ */
+class UsageError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "UsageError";
+  }
+}
+
+const USAGE = `Usage: hk <command> [file] [options]
+
+Commands:
+  solve    Print a maximum matching
+  check    Report whether a perfect matching exists (exit code 1 if not)
+  stats    Print graph and matching statistics
+
+Reads the graph from file, or from stdin if file is omitted or "-".
+
+Options:
+  -f, --format <format>         Input format: auto, json, dimacs, matrix-market, csv or tsv
+                                (default: auto, from the file extension or contents)
+  -o, --output <json|csv|text>  Output format (default: text)
+  -a, --algorithm <name>        Matching algorithm: hopcroft-karp, push-relabel, pothen-fan or kuhn
+                                (default: hopcroft-karp)
+  --perfect                     solve: exit with code 1 if the matching is not perfect
+  --left-size <n>               Number of left nodes of an edge list (default: largest left index + 1)
+  --right-size <n>              Number of right nodes of an edge list (default: largest right index + 1)
+  -h, --help                    Show this help
+`;
+
+const defaultIo: CliIo = {
+  stdout: text => process.stdout.write(text),
+  stderr: text => process.stderr.write(text),
+  readFile: path => Bun.file(path).text(),
+  readStdin: () => Bun.stdin.text()
+};
+
+/**
+ * Runs the CLI.
+ *
+ * @param argv Arguments after the executable name, e.g. ["solve", "graph.json"]
+ * @param io Output and input streams (default: the process's)
+ * @returns The exit code
+ */
+export async function main(argv: readonly string[], io: CliIo = defaultIo): Promise<number> {
+  if (argv.length === 0 || argv.includes("-h") || argv.includes("--help")) {
+    io.stdout(USAGE);
+    return argv.length === 0 ? EXIT_USAGE : EXIT_OK;
+  }
+
+  let options: CliOptions;
+  let graph: BipartiteGraph;
+  try {
+    options = parseArguments(argv);
+    const input = options.file === undefined || options.file === "-"
+      ? await io.readStdin()
+      : await io.readFile(options.file);
+    const format = options.format === "auto" ? detectGraphFormat(input, options.file) : options.format;
+    graph = parseGraph(input, format, options);
+  } catch (error) {
+    io.stderr(`hk: ${describeError(error)}\n`);
+    if (error instanceof UsageError) {
+      io.stderr(`\n${USAGE}`);
+    }
+    return EXIT_USAGE;
+  }
+
+  const matching = createSolver(options.algorithm, graph).findMaximumMatching();
+  const perfect = matching.size === graph.leftSize && matching.size === graph.rightSize;
+
+  switch (options.command) {
+    case "solve":
+      io.stdout(formatMatching(matching, perfect, options.output));
+      return options.perfect && !perfect ? EXIT_NO_PERFECT_MATCHING : EXIT_OK;
+    case "check":
+      io.stdout(formatCheck(graph, matching, perfect, options.output));
+      return perfect ? EXIT_OK : EXIT_NO_PERFECT_MATCHING;
+    case "stats":
+      io.stdout(formatRecord(graphStats(graph, matching, perfect), options.output));
+      return EXIT_OK;
+  }
+}
+
+function parseArguments(argv: readonly string[]): CliOptions {
+  const [command, ...rest] = argv;
+  if (command !== "solve" && command !== "check" && command !== "stats") {
+    throw new UsageError(`Unknown command "${command}"`);
+  }
+
+  let file: string | undefined;
+  let format: GraphFormat | "auto" = "auto";
+  let output: OutputFormat = "text";
+  let perfect = false;
+  let algorithm: SolverName = "hopcroft-karp";
+  let leftSize: number | undefined;
+  let rightSize: number | undefined;
+
+  for (let i = 0; i < rest.length; i++) {
+    const argument = rest[i];
+    const value = (): string => {
+      if (i + 1 >= rest.length) {
+        throw new UsageError(`Missing value for ${argument}`);
+      }
+      return rest[++i];
+    };
+
+    switch (argument) {
+      case "-o":
+      case "--output": {
+        const format = value();
+        if (format !== "json" && format !== "csv" && format !== "text") {
+          throw new UsageError(`Unknown output format "${format}"`);
+        }
+        output = format;
+        break;
+      }
+      case "-f":
+      case "--format": {
+        const name = value();
+        if (!INPUT_FORMATS.includes(name as GraphFormat | "auto")) {
+          throw new UsageError(`Unknown input format "${name}"`);
+        }
+        format = name as GraphFormat | "auto";
+        break;
+      }
+      case "-a":
+      case "--algorithm": {
+        const name = value();
+        if (!SOLVER_NAMES.includes(name as SolverName)) {
+          throw new UsageError(`Unknown algorithm "${name}"`);
+        }
+        algorithm = name as SolverName;
+        break;
+      }
+      case "--perfect":
+        perfect = true;
+        break;
+      case "--left-size":
+        leftSize = parseCount(argument, value());
+        break;
+      case "--right-size":
+        rightSize = parseCount(argument, value());
+        break;
+      default:
+        if (argument.startsWith("-") && argument !== "-") {
+          throw new UsageError(`Unknown option ${argument}`);
+        }
+        if (file !== undefined) {
+          throw new UsageError(`Unexpected argument "${argument}"`);
+        }
+        file = argument;
+    }
+  }
+
+  return { command, file, format, output, perfect, algorithm, leftSize, rightSize };
+}
+
+function parseCount(option: string, value: string): number {
+  const count = Number(value);
+  if (!/^\d+$/.test(value) || !Number.isSafeInteger(count)) {
+    throw new UsageError(`${option} must be a non-negative integer, got "${value}"`);
+  }
+  return count;
+}
+
+function formatMatching(matching: Matching, perfect: boolean, output: OutputFormat): string {
+  const pairs = matching.matchLeft.flatMap((v, u) => (v === -1 ? [] : [[u, v]]));
+
+  switch (output) {
+    case "json":
+      return `${JSON.stringify({ size: matching.size, perfect, pairs })}\n`;
+    case "csv":
+      return ["left,right", ...pairs.map(([u, v]) => `${u},${v}`)].join("\n") + "\n";
+    case "text":
+      return [
+        `Matching size: ${matching.size}${perfect ? " (perfect)" : ""}`,
+        ...pairs.map(([u, v]) => `${u} -> ${v}`)
+      ].join("\n") + "\n";
+  }
+}
+
+function formatCheck(
+  graph: BipartiteGraph,
+  matching: Matching,
+  perfect: boolean,
+  output: OutputFormat
+): string {
+  const { hallViolator } = certifyMatching(graph, matching);
+
+  if (output !== "text") {
+    return formatRecord({
+      perfect,
+      size: matching.size,
+      leftSize: graph.leftSize,
+      rightSize: graph.rightSize,
+      ...(hallViolator && {
+        violatorSide: hallViolator.side,
+        violatorVertices: hallViolator.vertices,
+        violatorNeighbours: hallViolator.neighbours
+      })
+    }, output);
+  }
+
+  if (perfect) {
+    return `Perfect matching exists (size ${matching.size})\n`;
+  }
+
+  const lines = [
+    `No perfect matching: maximum matching has size ${matching.size} ` +
+    `for ${graph.leftSize} left and ${graph.rightSize} right nodes`
+  ];
+  if (hallViolator) {
+    const other = hallViolator.side === "left" ? "right" : "left";
+    lines.push(
+      `${hallViolator.side} nodes ${hallViolator.vertices.join(", ")} ` +
+      `only connect to ${other} nodes ${hallViolator.neighbours.join(", ") || "(none)"}`
+    );
+  }
+  return lines.join("\n") + "\n";
+}
+
+type Stats = Record<string, number | boolean | string | readonly number[]>;
+
+function graphStats(graph: BipartiteGraph, matching: Matching, perfect: boolean): Stats {
+  const leftDegrees = graph.edges.map(adjacent => adjacent.length);
+  const rightDegrees: number[] = new Array(graph.rightSize).fill(0);
+  for (const adjacent of graph.edges) {
+    for (const v of adjacent) {
+      rightDegrees[v]++;
+    }
+  }
+  const edgeCount = leftDegrees.reduce((sum, degree) => sum + degree, 0);
+
+  return {
+    leftSize: graph.leftSize,
+    rightSize: graph.rightSize,
+    edges: edgeCount,
+    isolatedLeft: leftDegrees.filter(degree => degree === 0).length,
+    isolatedRight: rightDegrees.filter(degree => degree === 0).length,
+    maxLeftDegree: leftDegrees.reduce((max, degree) => Math.max(max, degree), 0),
+    maxRightDegree: rightDegrees.reduce((max, degree) => Math.max(max, degree), 0),
+    matchingSize: matching.size,
+    perfect
+  };
+}
+
+/**
+ * Formats a flat record as JSON, as key,value CSV rows, or as aligned text.
+ */
+function formatRecord(record: Stats, output: OutputFormat): string {
+  const entries = Object.entries(record);
+
+  switch (output) {
+    case "json":
+      return `${JSON.stringify(record)}\n`;
+    case "csv":
+      return ["key,value", ...entries.map(([key, value]) => `${key},${csvValue(value)}`)].join("\n") + "\n";
+    case "text": {
+      const width = Math.max(...entries.map(([key]) => key.length));
+      return entries.map(([key, value]) => `${key.padEnd(width)}  ${String(value)}`).join("\n") + "\n";
+    }
+  }
+}
+
+function csvValue(value: Stats[string]): string {
+  return Array.isArray(value) ? `"${value.join(",")}"` : String(value);
+}
+
+function describeError(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
+
+if (import.meta.main) {
+  process.exit(await main(process.argv.slice(2)));
+}
@@ -0,0 +1,121 @@
+import { describe, test, expect, spyOn } from "bun:test";
+
+import { createBipartiteGraph, HopcroftKarp } from "./hopkroft-karp";
+import { createCsrBipartiteGraph } from "./csr-graph";
+import { findConnectedComponents, solveByComponents, solveByComponentsInWorkers } from "./components";
+import { verifyMatching } from "./verify";
+import * as parallel from "./parallel";
+import { createRandom } from "./test-helpers";
+
+describe("findConnectedComponents", () => {
+  test("splits a graph into renumbered components", () => {
+    // Two departments: left 0 and 2 with right 1, and left 1 with right 0 and 2; right 3 is isolated
+    const graph = createBipartiteGraph(3, 4, [[0, 1], [2, 1], [1, 2], [1, 0]]);
+
+    const components = findConnectedComponents(graph);
+
+    expect(components).toEqual([
+      { graph: { leftSize: 2, rightSize: 1, edges: [[0], [0]] }, left: [0, 2], right: [1] },
+      { graph: { leftSize: 1, rightSize: 2, edges: [[1, 0]] }, left: [1], right: [0, 2] },
+      { graph: { leftSize: 0, rightSize: 1, edges: [] }, left: [], right: [3] }
+    ]);
+  });
+
+  test("accepts CSR graphs", () => {
+    const graph = createCsrBipartiteGraph(2, 2, [0, 1], [0, 1]);
+
+    expect(findConnectedComponents(graph).map(component => component.left)).toEqual([[0], [1]]);
+  });
+});
+
+describe("solveByComponents", () => {
+  // Component 0 has a perfect matching; component 1 has two left nodes competing for one right node
+  const graph = createBipartiteGraph(4, 3, [
+    [0, 0], [0, 1],
+    [1, 0],
+    [2, 2],
+    [3, 2]
+  ]);
+
+  test("merges the matchings of the components", () => {
+    const result = solveByComponents(graph);
+
+    expect(result.size).toBe(3);
+    expect(verifyMatching(graph, result, { checkMaximality: true }).maximum).toBe(true);
+    expect(result.components.map(component => component.perfect)).toEqual([true, false]);
+    expect(result.components[1].matching.size).toBe(1);
+  });
+
+  test("uses the chosen algorithm", () => {
+    const result = solveByComponents(graph, { algorithm: "push-relabel", initialization: "karp-sipser" });
+
+    expect(result.size).toBe(3);
+  });
+
+  test("agrees with HopcroftKarp on graphs with many clusters", () => {
+    const random = createRandom(12);
+    // 50 clusters of 20 + 20 nodes
+    const edges: [number, number][] = [];
+    for (let cluster = 0; cluster < 50; cluster++) {
+      for (let k = 0; k < 40; k++) {
+        edges.push([cluster * 20 + random(20), cluster * 20 + random(20)]);
+      }
+    }
+    const graph = createBipartiteGraph(1000, 1000, edges);
+
+    const result = solveByComponents(graph);
+
+    expect(result.size).toBe(new HopcroftKarp(graph).findMaximumMatching().size);
+    expect(verifyMatching(graph, result).valid).toBe(true);
+  });
+});
+
+describe("solveByComponentsInWorkers", () => {
+  test("solves large components on workers and small ones inline", async () => {
+    // Two components of 2000 edges each, and one small one
+    const edges: [number, number][] = [[2000, 2000]];
+    for (let u = 0; u < 1000; u++) {
+      edges.push([u, u], [u, (u + 1) % 1000], [1000 + u, 1000 + u], [1000 + u, 1000 + (u + 1) % 1000]);
+    }
+    const graph = createBipartiteGraph(2001, 2001, edges);
+
+    const result = await solveByComponentsInWorkers(graph, { workers: 2, minWorkerEdges: 1000 });
+
+    expect(result.size).toBe(2001);
+    expect(result.components.every(component => component.perfect)).toBe(true);
+    expect(verifyMatching(graph, result).valid).toBe(true);
+  });
+
+  test("starts no more workers after one fails", async () => {
+    // Four components of two edges each, all sent to workers
+    const graph = createBipartiteGraph(8, 8, [[0, 0], [0, 1], [2, 2], [2, 3], [4, 4], [4, 5], [6, 6], [6, 7]]);
+    const signals: (AbortSignal | undefined)[] = [];
+    const solveInWorker = spyOn(parallel, "solveInWorker").mockImplementation((_, options = {}) => {
+      signals.push(options.signal);
+      if (signals.length === 1) {
+        return Promise.reject(new Error("worker crashed"));
+      }
+      // Settles only when aborted
+      return new Promise((_, reject) => {
+        options.signal?.addEventListener("abort", () => reject(options.signal?.reason));
+      });
+    });
+
+    try {
+      await expect(solveByComponentsInWorkers(graph, { workers: 2, minWorkerEdges: 2 })).rejects.toThrow("worker crashed");
+
+      // The second runner's component was cancelled, and the other two never started
+      expect(solveInWorker).toHaveBeenCalledTimes(2);
+      expect(signals[1]?.aborted).toBe(true);
+    } finally {
+      solveInWorker.mockRestore();
+    }
+  });
+
+  test("rejects when aborted", async () => {
+    const graph = createBipartiteGraph(1, 1, [[0, 0]]);
+
+    await expect(solveByComponentsInWorkers(graph, { signal: AbortSignal.abort(new Error("stop")) }))
+      .rejects.toThrow("stop");
+  });
+});
@@ -0,0 +1,224 @@
+/**
+ * Decomposition into connected components, which can be matched
+ * independently: every edge, and so every augmenting path, stays within one.
+ */
+
+import { BipartiteGraph, BipartiteGraphError, Matching } from "./hopkroft-karp";
+import { AnyBipartiteGraph, isCsrBipartiteGraph, toAdjacencyListGraph } from "./csr-graph";
+import type { MatchingSolverOptions } from "./matching-solver";
+import { solveInWorker } from "./parallel";
+import { createSolver, SolverName } from "./solvers";
+
+/**
+ * A connected component as a graph of its own, with nodes renumbered from 0.
+ */
+export interface GraphComponent {
+  /** The component's nodes and edges */
+  readonly graph: BipartiteGraph;
+  /** left[i] is the index in the whole graph of the component's left node i */
+  readonly left: readonly number[];
+  /** right[j] is the index in the whole graph of the component's right node j */
+  readonly right: readonly number[];
+}
+
+export interface SolvedComponent extends GraphComponent {
+  /** Maximum matching of the component, in its own indices */
+  readonly matching: Matching;
+  /** Whether the matching covers every node of the component */
+  readonly perfect: boolean;
+}
+
+/**
+ * A maximum matching of the whole graph, assembled from its components.
+ */
+export interface ComponentMatching extends Matching {
+  readonly components: readonly SolvedComponent[];
+}
+
+/**
+ * Options for solving components on the main thread.
+ */
+export interface ComponentSolveOptions extends MatchingSolverOptions {
+  /** Algorithm for each component (default: hopcroft-karp) */
+  algorithm?: SolverName;
+}
+
+/**
+ * Options for solving components on worker threads.
+ */
+export interface ComponentWorkerSolveOptions extends MatchingSolverOptions {
+  /** Maximum number of components solved at once, each on its own worker (default: 4) */
+  workers?: number;
+  /** Components with fewer edges are solved on the main thread, where they are cheaper than a worker (default: 100000) */
+  minWorkerEdges?: number;
+  /** Cancels the run, rejecting with signal.reason */
+  signal?: AbortSignal;
+}
+
+/**
+ * Splits a graph into its connected components. Isolated nodes form
+ * components of their own. Components are ordered by their lowest left node,
+ * followed by those without left nodes by their lowest right node.
+ *
+ * @param graph Graph to split, in adjacency list or CSR form
+ * @returns The components, which together contain every node and edge once
+ */
+export function findConnectedComponents(graph: AnyBipartiteGraph): GraphComponent[] {
+  const { leftSize, rightSize, edges } = isCsrBipartiteGraph(graph) ? toAdjacencyListGraph(graph) : graph;
+
+  // Union-find over left nodes 0..leftSize-1 and right nodes leftSize..leftSize+rightSize-1
+  const parent = new Int32Array(leftSize + rightSize);
+  parent.forEach((_, x) => { parent[x] = x; });
+  const find = (x: number): number => {
+    while (parent[x] !== x) {
+      parent[x] = parent[parent[x]];
+      x = parent[x];
+    }
+    return x;
+  };
+  for (let u = 0; u < leftSize; u++) {
+    for (const v of edges[u]) {
+      if (v >= 0 && v < rightSize) {
+        parent[find(u)] = find(leftSize + v);
+      }
+    }
+  }
+
+  // Number components in order of first appearance, and nodes in order within them
+  const componentOfRoot = new Int32Array(leftSize + rightSize).fill(-1);
+  const localIndex = new Int32Array(leftSize + rightSize);
+  const members: { left: number[]; right: number[] }[] = [];
+  for (let x = 0; x < leftSize + rightSize; x++) {
+    const root = find(x);
+    if (componentOfRoot[root] === -1) {
+      componentOfRoot[root] = members.length;
+      members.push({ left: [], right: [] });
+    }
+    const { left, right } = members[componentOfRoot[root]];
+    if (x < leftSize) {
+      localIndex[x] = left.push(x) - 1;
+    } else {
+      localIndex[x] = right.push(x - leftSize) - 1;
+    }
+  }
+
+  return members.map(({ left, right }) => ({
+    graph: {
+      leftSize: left.length,
+      rightSize: right.length,
+      edges: left.map(u => edges[u].filter(v => v >= 0 && v < rightSize).map(v => localIndex[leftSize + v]))
+    },
+    left,
+    right
+  }));
+}
+
+/**
+ * Finds a maximum matching by solving each connected component on its own.
+ *
+ * @param graph Graph to match, in adjacency list or CSR form
+ * @param options Algorithm and initialization for each component
+ * @returns The matching of the whole graph, with each component's matching and whether it is perfect
+ * @throws {BipartiteGraphError} If the algorithm or initialization strategy is unknown
+ */
+export function solveByComponents(graph: AnyBipartiteGraph, options: ComponentSolveOptions = {}): ComponentMatching {
+  const { algorithm = "hopcroft-karp", ...solverOptions } = options;
+  const components = findConnectedComponents(graph);
+
+  return mergeComponents(
+    graph,
+    components.map(component => solved(component, createSolver(algorithm, component.graph, solverOptions).findMaximumMatching()))
+  );
+}
+
+/**
+ * Like solveByComponents, but solves large components concurrently on
+ * worker threads while the main thread handles the small ones. The workers
+ * are those of solveInWorker, which need Bun when run from the TypeScript sources.
+ *
+ * @param graph Graph to match, in adjacency list or CSR form
+ * @param options Concurrency, size threshold, initialization and cancellation signal
+ * @returns The matching of the whole graph, with each component's matching and whether it is perfect
+ * @throws {BipartiteGraphError} If the options are invalid, or a worker fails; no further components are started after a failure
+ */
+export async function solveByComponentsInWorkers(
+  graph: AnyBipartiteGraph,
+  options: ComponentWorkerSolveOptions = {}
+): Promise<ComponentMatching> {
+  const { workers = 4, minWorkerEdges = 100_000, signal, ...solverOptions } = options;
+  if (!Number.isInteger(workers) || workers < 1) {
+    throw new BipartiteGraphError(`Invalid number of workers ${workers}: must be a positive integer`);
+  }
+  signal?.throwIfAborted();
+
+  const components = findConnectedComponents(graph);
+  const results: SolvedComponent[] = new Array(components.length);
+  const large: number[] = [];
+  components.forEach((component, i) => {
+    const edgeCount = component.graph.edges.reduce((total, adjacent) => total + adjacent.length, 0);
+    if (edgeCount >= minWorkerEdges) {
+      large.push(i);
+    } else {
+      results[i] = solved(component, createSolver("hopcroft-karp", component.graph, solverOptions).findMaximumMatching());
+    }
+  });
+
+  // Follows signal, and is also aborted by the first failure so that no more workers start
+  const controller = new AbortController();
+  const onAbort = (): void => controller.abort(signal?.reason);
+  signal?.addEventListener("abort", onAbort);
+
+  // Each runner takes the next large component until none are left
+  let next = 0;
+  const runner = async (): Promise<void> => {
+    while (next < large.length && !controller.signal.aborted) {
+      const i = large[next++];
+      try {
+        const matching = await solveInWorker(components[i].graph, { ...solverOptions, signal: controller.signal });
+        results[i] = solved(components[i], matching);
+      } catch (error) {
+        controller.abort(error);
+        throw error;
+      }
+    }
+  };
+
+  try {
+    // Wait for every runner, so no worker outlives a failure
+    const outcomes = await Promise.allSettled(Array.from({ length: Math.min(workers, large.length) }, runner));
+    const failure = outcomes.find((outcome): outcome is PromiseRejectedResult => outcome.status === "rejected");
+    if (failure !== undefined) {
+      throw failure.reason;
+    }
+  } finally {
+    signal?.removeEventListener("abort", onAbort);
+  }
+
+  return mergeComponents(graph, results);
+}
+
+function solved(component: GraphComponent, matching: Matching): SolvedComponent {
+  const { leftSize, rightSize } = component.graph;
+  return { ...component, matching, perfect: matching.size === leftSize && matching.size === rightSize };
+}
+
+/**
+ * Translates the matchings of the components back to the whole graph.
+ */
+function mergeComponents(graph: AnyBipartiteGraph, components: SolvedComponent[]): ComponentMatching {
+  const matchLeft: number[] = new Array(graph.leftSize).fill(-1);
+  const matchRight: number[] = new Array(graph.rightSize).fill(-1);
+  let size = 0;
+
+  for (const { left, right, matching } of components) {
+    matching.matchLeft.forEach((v, i) => {
+      if (v !== -1) {
+        matchLeft[left[i]] = right[v];
+        matchRight[right[v]] = left[i];
+      }
+    });
+    size += matching.size;
+  }
+
+  return { matchLeft, matchRight, size, components };
+}
@@ -0,0 +1,170 @@
+import { describe, test, expect, spyOn } from "bun:test";
+
+import { findConstrainedMatching, MatchingConstraints } from "./constraints";
+import { BipartiteGraph, BipartiteGraphError, createBipartiteGraph, Matching } from "./hopkroft-karp";
+import { Hungarian } from "./hungarian";
+import { verifyMatching } from "./verify";
+import { createRandom, randomDenseGraph } from "./test-helpers";
+
+function satisfies(matching: Matching, constraints: MatchingConstraints): boolean {
+  const { requiredPairs = [], forbiddenPairs = [], requiredLeft = [], requiredRight = [] } = constraints;
+  return requiredPairs.every(([u, v]) => matching.matchLeft[u] === v) &&
+    forbiddenPairs.every(([u, v]) => matching.matchLeft[u] !== v) &&
+    requiredLeft.every(u => matching.matchLeft[u] !== -1) &&
+    requiredRight.every(v => matching.matchRight[v] !== -1);
+}
+
+// Size of the largest matching satisfying the constraints by exhaustive search, or -1 if there is none
+function bruteForce(graph: BipartiteGraph, constraints: MatchingConstraints): number {
+  const matchLeft: number[] = new Array(graph.leftSize).fill(-1);
+  const matchRight: number[] = new Array(graph.rightSize).fill(-1);
+  const search = (u: number, size: number): number => {
+    if (u === graph.leftSize) {
+      return satisfies({ matchLeft, matchRight, size }, constraints) ? size : -1;
+    }
+    let best = search(u + 1, size);
+    for (const v of graph.edges[u]) {
+      if (matchRight[v] === -1) {
+        matchLeft[u] = v;
+        matchRight[v] = u;
+        best = Math.max(best, search(u + 1, size + 1));
+        matchLeft[u] = -1;
+        matchRight[v] = -1;
+      }
+    }
+    return best;
+  };
+  return search(0, 0);
+}
+
+describe("findConstrainedMatching", () => {
+  // Three nurses and three shifts; without constraints, nurse 0 takes shift 0
+  const graph = createBipartiteGraph(3, 3, [[0, 0], [0, 1], [1, 0], [1, 2], [2, 1], [2, 2]]);
+
+  test("honours required and forbidden pairs", () => {
+    const constraints = { requiredPairs: [[1, 0]], forbiddenPairs: [[0, 1]] } as const;
+
+    const { matching, conflict } = findConstrainedMatching(graph, constraints);
+
+    expect(conflict).toBeNull();
+    // Nurse 0 has no shift left: shift 0 goes to nurse 1 and shift 1 is forbidden
+    expect(matching?.matchLeft[0]).toBe(-1);
+    expect(matching?.matchLeft[1]).toBe(0);
+    expect(matching?.size).toBe(2);
+  });
+
+  test("matches required vertices even when a larger matching would leave them out", () => {
+    // Left 0 can only take right 0, which left 1 also wants; left 1 has a second option
+    const chain = createBipartiteGraph(3, 2, [[0, 0], [1, 0], [1, 1], [2, 1]]);
+
+    const { matching } = findConstrainedMatching(chain, { requiredLeft: [0, 2] });
+
+    expect(matching).toEqual({ matchLeft: [0, -1, 1], matchRight: [0, 2], size: 2 });
+  });
+
+  test("returns an unconstrained maximum matching without constraints", () => {
+    const { matching } = findConstrainedMatching(graph, {});
+
+    expect(matching?.size).toBe(3);
+    expect(verifyMatching(graph, matching ?? { matchLeft: [], matchRight: [], size: 0 }).valid).toBe(true);
+  });
+
+  test("only runs the weighted solver when there are required vertices to cover", () => {
+    const solve = spyOn(Hungarian.prototype, "findMaximumMatching");
+    try {
+      expect(findConstrainedMatching(graph, { requiredPairs: [[0, 0]], forbiddenPairs: [[1, 2]] }).matching?.size).toBe(2);
+      // Left 0 is covered by its required pair already
+      expect(findConstrainedMatching(graph, { requiredPairs: [[0, 0]], requiredLeft: [0] }).matching?.size).toBe(3);
+      expect(solve).not.toHaveBeenCalled();
+
+      expect(findConstrainedMatching(graph, { requiredRight: [1] }).matching?.size).toBe(3);
+      expect(solve).toHaveBeenCalledTimes(1);
+    } finally {
+      solve.mockRestore();
+    }
+  });
+
+  test("reports required pairs that are not edges", () => {
+    expect(findConstrainedMatching(graph, { requiredPairs: [[0, 2]] }).conflict).toEqual({
+      kind: "missing-edge",
+      message: "Required pair [0, 2] is not an edge",
+      pairs: [[0, 2]]
+    });
+  });
+
+  test("reports pairs that are required and forbidden", () => {
+    const { matching, conflict } = findConstrainedMatching(graph, { requiredPairs: [[0, 0]], forbiddenPairs: [[0, 0]] });
+
+    expect(matching).toBeNull();
+    expect(conflict?.kind).toBe("forbidden");
+  });
+
+  test("reports overlapping required pairs", () => {
+    const { conflict } = findConstrainedMatching(graph, { requiredPairs: [[0, 0], [0, 0], [1, 0]] });
+
+    expect(conflict).toEqual({
+      kind: "overlapping",
+      message: "Required pairs [0, 0] and [1, 0] share a node",
+      pairs: [[0, 0], [1, 0]]
+    });
+  });
+
+  test("explains uncoverable left nodes with a Hall violator", () => {
+    // Nurse 1 is needed on shift 2 and nobody else can cover it, so nurses 0 and 1 compete for shift 0
+    const { conflict } = findConstrainedMatching(graph, {
+      requiredPairs: [[2, 2]],
+      forbiddenPairs: [[0, 1]],
+      requiredLeft: [0, 1]
+    });
+
+    expect(conflict).toEqual({
+      kind: "uncoverable",
+      message: "Required left nodes [0, 1] can only be matched with right nodes [0]",
+      hallViolator: { side: "left", vertices: [0, 1], neighbours: [0] }
+    });
+  });
+
+  test("explains uncoverable right nodes", () => {
+    const { conflict } = findConstrainedMatching(graph, { requiredPairs: [[0, 0], [2, 2]], requiredRight: [1] });
+
+    expect(conflict?.message).toBe("Required right nodes [1] can only be matched with left nodes []");
+    expect(conflict?.hallViolator).toEqual({ side: "right", vertices: [1], neighbours: [] });
+  });
+
+  test("throws for nodes outside the graph", () => {
+    expect(() => findConstrainedMatching(graph, { forbiddenPairs: [[3, 0]] }))
+      .toThrow("Invalid forbidden pair [3, 0]: indices must be within ranges [0, 2] and [0, 2]");
+    expect(() => findConstrainedMatching(graph, { requiredRight: [-1] })).toThrow(BipartiteGraphError);
+  });
+
+  test("agrees with exhaustive search on random graphs and constraints", () => {
+    const random = createRandom(24);
+    const pick = (count: number, make: () => number): number[] => Array.from({ length: random(count + 1) }, make);
+
+    for (let trial = 0; trial < 300; trial++) {
+      const leftSize = 1 + random(5);
+      const rightSize = 1 + random(5);
+      const graph = randomDenseGraph(random, leftSize, rightSize, 2);
+      const edges = graph.edges.flatMap((adjacent, u) => adjacent.map((v): [number, number] => [u, v]));
+      const constraints: MatchingConstraints = {
+        requiredPairs: edges.length === 0 ? [] : pick(1, () => 0).map(() => edges[random(edges.length)]),
+        forbiddenPairs: pick(2, () => 0).map((): [number, number] => [random(leftSize), random(rightSize)]),
+        requiredLeft: pick(2, () => random(leftSize)),
+        requiredRight: pick(2, () => random(rightSize))
+      };
+
+      const expected = bruteForce(graph, constraints);
+      const { matching, conflict } = findConstrainedMatching(graph, constraints);
+
+      if (expected === -1) {
+        expect(matching).toBeNull();
+        expect(conflict).not.toBeNull();
+      } else {
+        expect(conflict).toBeNull();
+        expect(matching?.size).toBe(expected);
+        expect(matching !== null && satisfies(matching, constraints)).toBe(true);
+        expect(matching !== null && verifyMatching(graph, matching).valid).toBe(true);
+      }
+    }
+  });
+});
@@ -0,0 +1,225 @@
+/**
+ * Maximum matching under constraints: pairs that must or must not be
+ * matched, and vertices that must be matched to someone.
+ *
+ * Required pairs are fixed first and their vertices removed, together with
+ * the forbidden edges. In what remains, a matching covering the required
+ * vertices exists exactly when one covers the required left nodes and one
+ * covers the required right nodes (Mendelsohn-Dulmage), so each side is
+ * checked on its own, and Hall's condition explains a failure. Augmenting a
+ * matching never unmatches a vertex, so the matching covering the most
+ * required vertices among the maximum ones, found with Hungarian, is maximum
+ * among the matchings satisfying the constraints. Without required vertices,
+ * HopcroftKarp finds it directly.
+ */
+
+import { BipartiteGraph, BipartiteGraphError, HopcroftKarp, Matching } from "./hopkroft-karp";
+import { certifyMatching, HallViolator } from "./certificate";
+import { Hungarian } from "./hungarian";
+
+export interface MatchingConstraints {
+  /** [left, right] pairs that must be matched to each other */
+  requiredPairs?: readonly (readonly [number, number])[];
+  /** [left, right] pairs that must not be matched to each other */
+  forbiddenPairs?: readonly (readonly [number, number])[];
+  /** Left nodes that must be matched to some right node */
+  requiredLeft?: readonly number[];
+  /** Right nodes that must be matched to some left node */
+  requiredRight?: readonly number[];
+}
+
+export type ConstraintConflictKind =
+  /** A required pair is not an edge of the graph */
+  | "missing-edge"
+  /** A pair is both required and forbidden */
+  | "forbidden"
+  /** Two required pairs share a vertex */
+  | "overlapping"
+  /** Required vertices have too few partners left to all be matched */
+  | "uncoverable";
+
+/**
+ * The constraint that makes a constrained matching impossible.
+ */
+export interface ConstraintConflict {
+  readonly kind: ConstraintConflictKind;
+  /** Human-readable description */
+  readonly message: string;
+  /** Required pairs involved, unless kind is "uncoverable" */
+  readonly pairs?: readonly (readonly [number, number])[];
+  /**
+   * For "uncoverable": required vertices on one side, and all partners they
+   * can still be matched with once required pairs and forbidden edges are
+   * taken out, which are fewer
+   */
+  readonly hallViolator?: HallViolator;
+}
+
+export interface ConstrainedMatchingResult {
+  /** A maximum matching among those satisfying every constraint, or null if none does */
+  readonly matching: Matching | null;
+  /** Why no matching satisfies the constraints, or null if one does */
+  readonly conflict: ConstraintConflict | null;
+}
+
+/**
+ * Finds a maximum matching that satisfies the constraints, or explains
+ * which constraint makes that impossible.
+ *
+ * @param graph The bipartite graph
+ * @param constraints Required and forbidden pairs, and vertices that must be matched
+ * @returns The matching, or the conflict if there is none
+ * @throws {BipartiteGraphError} If a constraint refers to a node outside the graph
+ */
+export function findConstrainedMatching(
+  graph: BipartiteGraph,
+  constraints: MatchingConstraints
+): ConstrainedMatchingResult {
+  const { requiredPairs = [], forbiddenPairs = [], requiredLeft = [], requiredRight = [] } = constraints;
+  const { leftSize, rightSize, edges } = graph;
+  checkConstraintNodes(graph, constraints);
+
+  const conflict = (result: ConstraintConflict): ConstrainedMatchingResult => ({ matching: null, conflict: result });
+  const key = (u: number, v: number): number => u * rightSize + v;
+  const forbidden = new Set(forbiddenPairs.map(([u, v]) => key(u, v)));
+
+  // Fix the required pairs
+  const matchLeft: number[] = new Array(leftSize).fill(-1);
+  const matchRight: number[] = new Array(rightSize).fill(-1);
+  // Required pair fixing each matched vertex, to report overlaps
+  const pairOfLeft = new Map<number, readonly [number, number]>();
+  const pairOfRight = new Map<number, readonly [number, number]>();
+  for (const pair of requiredPairs) {
+    const [u, v] = pair;
+    if (!edges[u].includes(v)) {
+      return conflict({ kind: "missing-edge", message: `Required pair [${u}, ${v}] is not an edge`, pairs: [pair] });
+    }
+    if (forbidden.has(key(u, v))) {
+      return conflict({ kind: "forbidden", message: `Pair [${u}, ${v}] is both required and forbidden`, pairs: [pair] });
+    }
+    const other = pairOfLeft.get(u) ?? pairOfRight.get(v);
+    if (other !== undefined) {
+      if (other[0] === u && other[1] === v) {
+        continue;
+      }
+      return conflict({
+        kind: "overlapping",
+        message: `Required pairs [${other[0]}, ${other[1]}] and [${u}, ${v}] share a node`,
+        pairs: [other, pair]
+      });
+    }
+    pairOfLeft.set(u, pair);
+    pairOfRight.set(v, pair);
+    matchLeft[u] = v;
+    matchRight[v] = u;
+  }
+
+  // What remains: the edges between unmatched vertices that are not forbidden
+  const remaining: number[][] = edges.map((adjacent, u) =>
+    matchLeft[u] !== -1 ? [] : adjacent.filter(v => matchRight[v] === -1 && !forbidden.has(key(u, v)))
+  );
+
+  const coverLeft = [...new Set(requiredLeft)].filter(u => matchLeft[u] === -1);
+  const coverRight = [...new Set(requiredRight)].filter(v => matchRight[v] === -1);
+  const leftViolator = uncoverable("left", coverLeft, remaining, rightSize);
+  const violator = leftViolator ?? uncoverable("right", coverRight, reverseEdges(remaining, rightSize), leftSize);
+  if (violator !== null) {
+    const other = violator.side === "left" ? "right" : "left";
+    return conflict({
+      kind: "uncoverable",
+      message: `Required ${violator.side} nodes [${violator.vertices.join(", ")}] can only be matched with ` +
+        `${other} nodes [${violator.neighbours.join(", ")}]`,
+      hallViolator: violator
+    });
+  }
+
+  // Among maximum matchings of the rest, one covering every required vertex;
+  // any maximum matching will do when there are none
+  const isRequiredLeft = new Set(coverLeft);
+  const isRequiredRight = new Set(coverRight);
+  const rest: BipartiteGraph = { leftSize, rightSize, edges: remaining };
+  const { matchLeft: restLeft } = coverLeft.length === 0 && coverRight.length === 0
+    ? new HopcroftKarp(rest).findMaximumMatching()
+    : new Hungarian(
+      {
+        ...rest,
+        weights: remaining.map((adjacent, u) =>
+          adjacent.map(v => Number(isRequiredLeft.has(u)) + Number(isRequiredRight.has(v)))
+        )
+      },
+      { objective: "max-weight" }
+    ).findMaximumMatching();
+
+  let size = pairOfLeft.size;
+  restLeft.forEach((v, u) => {
+    if (v !== -1) {
+      matchLeft[u] = v;
+      matchRight[v] = u;
+      size++;
+    }
+  });
+
+  return { matching: { matchLeft, matchRight, size }, conflict: null };
+}
+
+function checkConstraintNodes(graph: BipartiteGraph, constraints: MatchingConstraints): void {
+  const { leftSize, rightSize } = graph;
+  const isNode = (x: number, size: number): boolean => Number.isInteger(x) && x >= 0 && x < size;
+
+  for (const [name, pairs] of [["required", constraints.requiredPairs], ["forbidden", constraints.forbiddenPairs]] as const) {
+    for (const [u, v] of pairs ?? []) {
+      if (!isNode(u, leftSize) || !isNode(v, rightSize)) {
+        throw new BipartiteGraphError(
+          `Invalid ${name} pair [${u}, ${v}]: indices must be within ranges [0, ${leftSize-1}] and [0, ${rightSize-1}]`
+        );
+      }
+    }
+  }
+  for (const [side, nodes, size] of [["left", constraints.requiredLeft, leftSize], ["right", constraints.requiredRight, rightSize]] as const) {
+    for (const x of nodes ?? []) {
+      if (!isNode(x, size)) {
+        throw new BipartiteGraphError(`Invalid required ${side} node ${x}: must be within range [0, ${size-1}]`);
+      }
+    }
+  }
+}
+
+/**
+ * Checks whether the given nodes of one side can all be matched at once,
+ * returning a Hall violator among them if not.
+ *
+ * @param side Side of the nodes, which edges start from
+ * @param nodes Nodes that must be matched
+ * @param edges Adjacency lists of that side
+ * @param otherSize Number of nodes on the other side
+ */
+function uncoverable(
+  side: "left" | "right",
+  nodes: readonly number[],
+  edges: readonly (readonly number[])[],
+  otherSize: number
+): HallViolator | null {
+  // Only the given nodes, renumbered from 0, keep their edges
+  const graph: BipartiteGraph = { leftSize: nodes.length, rightSize: otherSize, edges: nodes.map(x => edges[x]) };
+  const matching = new HopcroftKarp(graph).findMaximumMatching();
+  if (matching.size === nodes.length) {
+    return null;
+  }
+
+  const { hallViolator } = certifyMatching(graph, matching);
+  return hallViolator && {
+    side,
+    vertices: hallViolator.vertices.map(i => nodes[i]).sort((a, b) => a - b),
+    neighbours: hallViolator.neighbours
+  };
+}
+
+function reverseEdges(edges: readonly (readonly number[])[], rightSize: number): number[][] {
+  const reversed: number[][] = Array.from({ length: rightSize }, () => []);
+  edges.forEach((adjacent, u) => {
+    for (const v of adjacent) {
+      reversed[v].push(u);
+    }
+  });
+  return reversed;
+}
@@ -0,0 +1,182 @@
+import { describe, test, expect } from "bun:test";
+
+import { BipartiteGraphError, GraphIssue, HopcroftKarp, createBipartiteGraph } from "./hopkroft-karp";
+import {
+  createCsrBipartiteGraph,
+  createCsrBipartiteGraphFromOffsets,
+  isCsrBipartiteGraph,
+  toAdjacencyListGraph,
+  toCsrBipartiteGraph
+} from "./csr-graph";
+
+describe("createCsrBipartiteGraph", () => {
+  test("groups edges by left node in input order", () => {
+    const graph = createCsrBipartiteGraph(
+      3, 3,
+      new Int32Array([2, 0, 2, 1, 0]),
+      new Int32Array([1, 1, 2, 0, 2])
+    );
+
+    expect(Array.from(graph.offsets)).toEqual([0, 2, 3, 5]);
+    expect(Array.from(graph.targets)).toEqual([1, 2, 0, 1, 2]);
+    expect(isCsrBipartiteGraph(graph)).toBe(true);
+  });
+
+  test("accepts plain arrays", () => {
+    const graph = createCsrBipartiteGraph(2, 2, [0, 1], [1, 0]);
+
+    expect(Array.from(graph.targets)).toEqual([1, 0]);
+  });
+
+  test("skips invalid edges by default", () => {
+    const graph = createCsrBipartiteGraph(2, 2, [0, -1, 1, 0], [0, 0, 5, 1]);
+
+    expect(Array.from(graph.offsets)).toEqual([0, 2, 2]);
+    expect(Array.from(graph.targets)).toEqual([0, 1]);
+  });
+
+  test("throws error for invalid edges when skipInvalidEdges is false", () => {
+    expect(() => {
+      createCsrBipartiteGraph(2, 2, [0, 1], [0, 2], { skipInvalidEdges: false });
+    }).toThrow(BipartiteGraphError);
+  });
+
+  test("skips edges with non-integer endpoints", () => {
+    const skipped: GraphIssue[] = [];
+    const graph = createCsrBipartiteGraph(2, 2, [0.5, 0, NaN, 1], [0, 1, 0, Infinity], {
+      onInvalidEdge: issue => skipped.push(issue)
+    });
+
+    expect(Array.from(graph.offsets)).toEqual([0, 1, 1]);
+    expect(Array.from(graph.targets)).toEqual([1]);
+    expect(skipped).toEqual([
+      { kind: "non-integer", message: "Invalid edge [0.5, 0]: indices must be integers", edgeIndex: 0, edge: [0.5, 0] },
+      { kind: "non-integer", message: "Invalid edge [NaN, 0]: indices must be integers", edgeIndex: 2, edge: [NaN, 0] },
+      { kind: "non-integer", message: "Invalid edge [1, Infinity]: indices must be integers", edgeIndex: 3, edge: [1, Infinity] }
+    ]);
+  });
+
+  test("reports every invalid edge in the error", () => {
+    let error: unknown;
+    try {
+      createCsrBipartiteGraph(2, 2, [0, 0.5, 3], [0, 1, 0], { skipInvalidEdges: false });
+    } catch (e) {
+      error = e;
+    }
+
+    expect(error).toBeInstanceOf(BipartiteGraphError);
+    expect((error as BipartiteGraphError).message).toBe("Invalid edge [0.5, 1]: indices must be integers (and 1 more)");
+    expect((error as BipartiteGraphError).issues.map(({ kind, edgeIndex }) => [kind, edgeIndex]))
+      .toEqual([["non-integer", 1], ["out-of-range", 2]]);
+  });
+
+  test("removes duplicate edges when asked to", () => {
+    const skipped: GraphIssue[] = [];
+    const graph = createCsrBipartiteGraph(2, 2, [0, 1, 0], [1, 0, 1], {
+      deduplicate: true,
+      onInvalidEdge: issue => skipped.push(issue)
+    });
+
+    expect(Array.from(graph.targets)).toEqual([1, 0]);
+    expect(skipped.map(({ kind, edgeIndex }) => [kind, edgeIndex])).toEqual([["duplicate", 2]]);
+  });
+
+  test("throws error for invalid sizes", () => {
+    for (const size of [1.5, NaN, Infinity]) {
+      expect(() => createCsrBipartiteGraph(size, 2, [], []))
+        .toThrow(`leftSize must be a non-negative integer, got ${size}`);
+      expect(() => createCsrBipartiteGraphFromOffsets(2, size, new Int32Array(3), new Int32Array(0)))
+        .toThrow(`rightSize must be a non-negative integer, got ${size}`);
+    }
+
+    let error: unknown;
+    try {
+      createCsrBipartiteGraph(-1, 2, [], []);
+    } catch (e) {
+      error = e;
+    }
+    expect((error as BipartiteGraphError).issues).toEqual([
+      { kind: "invalid-size", message: "leftSize must be non-negative, got -1" }
+    ]);
+  });
+
+  test("throws error for mismatched endpoint arrays", () => {
+    expect(() => {
+      createCsrBipartiteGraph(2, 2, [0, 1], [0]);
+    }).toThrow(BipartiteGraphError);
+  });
+});
+
+describe("createCsrBipartiteGraphFromOffsets", () => {
+  test("wraps buffers without copying", () => {
+    const buffer = new ArrayBuffer(7 * 4);
+    const offsets = new Int32Array(buffer, 0, 4);
+    const targets = new Int32Array(buffer, 16, 3);
+    offsets.set([0, 1, 2, 3]);
+    targets.set([2, 0, 1]);
+
+    const graph = createCsrBipartiteGraphFromOffsets(3, 3, offsets, targets);
+
+    expect(graph.offsets).toBe(offsets);
+    expect(graph.targets).toBe(targets);
+    expect(new HopcroftKarp(graph).findPerfectMatching()?.matchLeft).toEqual([2, 0, 1]);
+  });
+
+  test("throws error for malformed arrays", () => {
+    const targets = new Int32Array([0, 1]);
+
+    expect(() => {
+      createCsrBipartiteGraphFromOffsets(2, 2, new Int32Array([0, 2]), targets);
+    }).toThrow(BipartiteGraphError);
+
+    expect(() => {
+      createCsrBipartiteGraphFromOffsets(2, 2, new Int32Array([0, 2, 1]), targets);
+    }).toThrow(BipartiteGraphError);
+
+    expect(() => {
+      createCsrBipartiteGraphFromOffsets(2, 2, new Int32Array([0, 1, 2]), new Int32Array([0, 3]));
+    }).toThrow(BipartiteGraphError);
+  });
+});
+
+describe("conversions", () => {
+  test("round-trips adjacency list graphs", () => {
+    const graph = createBipartiteGraph(3, 2, [
+      [0, 1], [0, 0],
+      [2, 1]
+    ]);
+
+    const csr = toCsrBipartiteGraph(graph);
+
+    expect(Array.from(csr.offsets)).toEqual([0, 2, 2, 3]);
+    expect(isCsrBipartiteGraph(graph)).toBe(false);
+    expect(toAdjacencyListGraph(csr)).toEqual(graph);
+  });
+});
+
+describe("HopcroftKarp with CSR graphs", () => {
+  test("finds the same matchings as with adjacency lists", () => {
+    const edges: [number, number][] = [];
+    for (let u = 0; u < 50; u++) {
+      edges.push([u, (u * 7) % 40], [u, (u * 3 + 1) % 40], [u, (u * 11 + 5) % 40]);
+    }
+    const graph = createBipartiteGraph(50, 40, edges);
+
+    const fromLists = new HopcroftKarp(graph).findMaximumMatching();
+    const fromCsr = new HopcroftKarp(toCsrBipartiteGraph(graph)).findMaximumMatching();
+
+    expect(fromCsr).toEqual(fromLists);
+  });
+
+  test("validates initial matchings against CSR edges", () => {
+    const graph = createCsrBipartiteGraph(2, 2, [0, 1], [1, 0]);
+
+    const hk = new HopcroftKarp(graph, { initialMatching: { matchLeft: [1, -1] } });
+    expect(hk.size).toBe(1);
+    expect(hk.findPerfectMatching()?.matchLeft).toEqual([1, 0]);
+
+    expect(() => {
+      new HopcroftKarp(graph, { initialMatching: { matchLeft: [0, -1] } });
+    }).toThrow(BipartiteGraphError);
+  });
+});
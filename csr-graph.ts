@@ -0,0 +1,228 @@
+/**
+ * Compressed sparse row (CSR) representation of bipartite graphs.
+ *
+ * All edges live in two flat typed arrays instead of one JS array per node,
+ * which keeps large graphs compact and lets them be loaded straight from
+ * binary buffers.
+ */
+
+import {
+  BipartiteGraph,
+  BipartiteGraphError,
+  checkDuplicateEdge,
+  checkGraphEdge,
+  checkGraphSizes,
+  EdgeListOptions,
+  GraphIssue,
+  graphIssuesError
+} from "./hopkroft-karp";
+
+export interface CsrBipartiteGraph {
+  /** Number of nodes in the left partition */
+  readonly leftSize: number;
+  /** Number of nodes in the right partition */
+  readonly rightSize: number;
+  /** Edge ranges: left node u is connected to targets[offsets[u]] .. targets[offsets[u + 1] - 1] */
+  readonly offsets: Int32Array;
+  /** Right nodes of all edges, grouped by left node */
+  readonly targets: Int32Array;
+}
+
+/** Either graph representation accepted by HopcroftKarp */
+export type AnyBipartiteGraph = BipartiteGraph | CsrBipartiteGraph;
+
+export function isCsrBipartiteGraph(graph: AnyBipartiteGraph): graph is CsrBipartiteGraph {
+  return "offsets" in graph;
+}
+
+/**
+ * Builds a CSR graph from parallel arrays of edge endpoints, so that edge i
+ * connects left node lefts[i] to right node rights[i]. Edges keep their input
+ * order within each left node.
+ *
+ * @param leftSize Number of nodes in the left partition
+ * @param rightSize Number of nodes in the right partition
+ * @param lefts Left endpoint of each edge
+ * @param rights Right endpoint of each edge
+ * @param options Configuration options
+ * @returns A CsrBipartiteGraph object
+ * @throws {BipartiteGraphError} If a size is invalid, or input validation fails and options.skipInvalidEdges is
+ *   false; its issues list every invalid edge
+ */
+export function createCsrBipartiteGraph(
+  leftSize: number,
+  rightSize: number,
+  lefts: ArrayLike<number>,
+  rights: ArrayLike<number>,
+  options: EdgeListOptions = {}
+): CsrBipartiteGraph {
+  const { validateInput = true, skipInvalidEdges = true, deduplicate = false, onInvalidEdge } = options;
+
+  if (validateInput) {
+    validateSizes(leftSize, rightSize);
+  }
+
+  if (lefts.length !== rights.length) {
+    throw new BipartiteGraphError(
+      `Edge endpoint arrays differ in length: ${lefts.length} left and ${rights.length} right`
+    );
+  }
+
+  // Edges to leave out, with the same checks as createBipartiteGraph
+  const skipped = new Uint8Array(lefts.length);
+  const seen = new Map<number, number>();
+  const invalid: GraphIssue[] = [];
+  for (let i = 0; i < lefts.length; i++) {
+    const u = lefts[i];
+    const v = rights[i];
+    // Fast path for valid edges, so that millions of them need no edge arrays
+    if (Number.isInteger(u) && Number.isInteger(v) && u >= 0 && u < leftSize && v >= 0 && v < rightSize) {
+      const duplicate = deduplicate ? checkDuplicateEdge(rightSize, [u, v], i, seen) : null;
+      if (duplicate !== null) {
+        skipped[i] = 1;
+        onInvalidEdge?.(duplicate);
+      }
+      continue;
+    }
+
+    skipped[i] = 1;
+    const issue = checkGraphEdge(leftSize, rightSize, [u, v], i, false);
+    if (issue !== null) {
+      if (validateInput && !skipInvalidEdges) {
+        invalid.push(issue);
+      } else {
+        onInvalidEdge?.(issue); // Skip invalid edges if skipInvalidEdges is true
+      }
+    }
+  }
+
+  // Report every invalid edge at once rather than only the first
+  if (invalid.length > 0) {
+    throw graphIssuesError(invalid);
+  }
+
+  // Counting sort by left node: count degrees, prefix sum, then place
+  const offsets = new Int32Array(Math.max(leftSize, 0) + 1);
+  for (let i = 0; i < lefts.length; i++) {
+    if (!skipped[i]) {
+      offsets[lefts[i] + 1]++;
+    }
+  }
+  for (let u = 0; u < leftSize; u++) {
+    offsets[u + 1] += offsets[u];
+  }
+
+  const targets = new Int32Array(offsets[offsets.length - 1]);
+  const next = offsets.slice(0, -1);
+  for (let i = 0; i < lefts.length; i++) {
+    if (!skipped[i]) {
+      targets[next[lefts[i]]++] = rights[i];
+    }
+  }
+
+  return { leftSize, rightSize, offsets, targets };
+}
+
+/**
+ * Wraps existing CSR arrays, e.g. views over a binary buffer, without copying them.
+ *
+ * @param leftSize Number of nodes in the left partition
+ * @param rightSize Number of nodes in the right partition
+ * @param offsets Edge ranges per left node, of length leftSize + 1
+ * @param targets Right nodes of all edges, grouped by left node
+ * @returns A CsrBipartiteGraph object sharing the given arrays
+ * @throws {BipartiteGraphError} If the arrays are not a valid CSR graph
+ */
+export function createCsrBipartiteGraphFromOffsets(
+  leftSize: number,
+  rightSize: number,
+  offsets: Int32Array,
+  targets: Int32Array
+): CsrBipartiteGraph {
+  validateSizes(leftSize, rightSize);
+
+  if (offsets.length !== leftSize + 1) {
+    throw new BipartiteGraphError(
+      `offsets must have leftSize + 1 = ${leftSize + 1} entries, got ${offsets.length}`
+    );
+  }
+
+  if (offsets[0] !== 0 || offsets[leftSize] !== targets.length) {
+    throw new BipartiteGraphError(
+      `offsets must start at 0 and end at the number of targets (${targets.length})`
+    );
+  }
+
+  for (let u = 0; u < leftSize; u++) {
+    if (offsets[u + 1] < offsets[u]) {
+      throw new BipartiteGraphError(
+        `offsets must be non-decreasing, got ${offsets[u]} then ${offsets[u + 1]} at left node ${u}`
+      );
+    }
+  }
+
+  for (let i = 0; i < targets.length; i++) {
+    if (targets[i] < 0 || targets[i] >= rightSize) {
+      throw new BipartiteGraphError(
+        `Invalid target ${targets[i]} at position ${i}: index must be within range [0, ${rightSize-1}]`
+      );
+    }
+  }
+
+  return { leftSize, rightSize, offsets, targets };
+}
+
+/**
+ * Converts an adjacency list graph to CSR form.
+ */
+export function toCsrBipartiteGraph(graph: BipartiteGraph): CsrBipartiteGraph {
+  const offsets = new Int32Array(graph.leftSize + 1);
+  for (let u = 0; u < graph.leftSize; u++) {
+    offsets[u + 1] = offsets[u] + graph.edges[u].length;
+  }
+
+  const targets = new Int32Array(offsets[graph.leftSize]);
+  for (let u = 0; u < graph.leftSize; u++) {
+    targets.set(graph.edges[u], offsets[u]);
+  }
+
+  return { leftSize: graph.leftSize, rightSize: graph.rightSize, offsets, targets };
+}
+
+/**
+ * Returns a CSR graph whose arrays live in SharedArrayBuffers, so worker
+ * threads can read it without copying. Graphs that already do are returned as is.
+ */
+export function toSharedCsrBipartiteGraph(graph: AnyBipartiteGraph): CsrBipartiteGraph {
+  const csr = isCsrBipartiteGraph(graph) ? graph : toCsrBipartiteGraph(graph);
+  if (csr.offsets.buffer instanceof SharedArrayBuffer && csr.targets.buffer instanceof SharedArrayBuffer) {
+    return csr;
+  }
+
+  const share = (array: Int32Array): Int32Array => {
+    const shared = new Int32Array(new SharedArrayBuffer(array.byteLength));
+    shared.set(array);
+    return shared;
+  };
+
+  return { leftSize: csr.leftSize, rightSize: csr.rightSize, offsets: share(csr.offsets), targets: share(csr.targets) };
+}
+
+/**
+ * Converts a CSR graph to adjacency list form.
+ */
+export function toAdjacencyListGraph(graph: CsrBipartiteGraph): BipartiteGraph {
+  const edges: number[][] = [];
+  for (let u = 0; u < graph.leftSize; u++) {
+    edges.push(Array.from(graph.targets.subarray(graph.offsets[u], graph.offsets[u + 1])));
+  }
+
+  return { leftSize: graph.leftSize, rightSize: graph.rightSize, edges };
+}
+
+function validateSizes(leftSize: number, rightSize: number): void {
+  const issues = checkGraphSizes(leftSize, rightSize);
+  if (issues.length > 0) {
+    throw graphIssuesError(issues);
+  }
+}
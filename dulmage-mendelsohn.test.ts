@@ -0,0 +1,136 @@
+import { describe, test, expect } from "bun:test";
+
+import { BipartiteGraphError, createBipartiteGraph } from "./hopkroft-karp";
+import { classifyEdges, dulmageMendelsohn } from "./dulmage-mendelsohn";
+import { enumerateMaximumMatchings } from "./enumerate-matchings";
+import { createRandom, randomDenseGraph } from "./test-helpers";
+
+describe("classifyEdges", () => {
+  test("classifies edges of a graph with a unique perfect matching", () => {
+    const graph = createBipartiteGraph(2, 2, [[0, 0], [0, 1], [1, 1]]);
+
+    expect(classifyEdges(graph)).toEqual([["mandatory", "forbidden"], ["mandatory"]]);
+  });
+
+  test("marks edges on an alternating cycle as allowed", () => {
+    const graph = createBipartiteGraph(3, 3, [
+      [0, 0], [0, 1],
+      [1, 0], [1, 1],
+      [2, 1], [2, 2]
+    ]);
+
+    // Left node 2 must take right node 2, leaving a 4-cycle
+    expect(classifyEdges(graph)).toEqual([
+      ["allowed", "allowed"],
+      ["allowed", "allowed"],
+      ["forbidden", "mandatory"]
+    ]);
+  });
+
+  test("marks edges in the surplus parts as allowed", () => {
+    // Left nodes 0 and 1 compete for right node 0; right nodes 1 and 2 for left node 2
+    const graph = createBipartiteGraph(3, 3, [[0, 0], [1, 0], [2, 1], [2, 2]]);
+
+    expect(classifyEdges(graph)).toEqual([["allowed"], ["allowed"], ["allowed", "allowed"]]);
+  });
+
+  test("classifies parallel edges alike", () => {
+    const graph = createBipartiteGraph(1, 1, [[0, 0], [0, 0]]);
+
+    expect(classifyEdges(graph)).toEqual([["mandatory", "mandatory"]]);
+  });
+
+  test("accepts a given maximum matching and rejects others", () => {
+    const graph = createBipartiteGraph(2, 2, [[0, 0], [0, 1], [1, 1]]);
+
+    const classes = classifyEdges(graph, { matchLeft: [0, 1], matchRight: [0, 1], size: 2 });
+    expect(classes[0]).toEqual(["mandatory", "forbidden"]);
+
+    expect(() => {
+      classifyEdges(graph, { matchLeft: [1, -1], matchRight: [-1, 0], size: 1 });
+    }).toThrow(BipartiteGraphError);
+  });
+
+  test("agrees with enumeration on random graphs", () => {
+    const random = createRandom(11);
+
+    for (let trial = 0; trial < 150; trial++) {
+      const leftSize = 1 + random(6);
+      const rightSize = 1 + random(6);
+      const graph = randomDenseGraph(random, leftSize, rightSize, 3);
+
+      const matchings = [...enumerateMaximumMatchings(graph)];
+      const classes = classifyEdges(graph);
+
+      graph.edges.forEach((adjacent, u) => adjacent.forEach((v, i) => {
+        const containing = matchings.filter(m => m.matchLeft[u] === v).length;
+        const expected = containing === 0
+          ? "forbidden"
+          : containing === matchings.length ? "mandatory" : "allowed";
+        expect(classes[u][i]).toBe(expected);
+      }));
+    }
+  });
+});
+
+describe("dulmageMendelsohn", () => {
+  test("splits the graph into surplus and square parts", () => {
+    // Left 0 and 1 compete for right 0; left 2 and 3 form a square with a 4-cycle;
+    // left 4 alone can take right 3 or right 4
+    const graph = createBipartiteGraph(5, 5, [
+      [0, 0], [1, 0],
+      [2, 1], [2, 2], [3, 1], [3, 2],
+      [4, 3], [4, 4]
+    ]);
+
+    const { leftSurplus, square, rightSurplus, blocks } = dulmageMendelsohn(graph);
+
+    expect(leftSurplus).toEqual({ left: [0, 1], right: [0] });
+    expect(square).toEqual({ left: [2, 3], right: [1, 2] });
+    expect(rightSurplus).toEqual({ left: [4], right: [3, 4] });
+    expect(blocks).toEqual([{ left: [2, 3], right: [1, 2] }]);
+  });
+
+  test("orders blocks so edges only point to later blocks", () => {
+    // Upper triangular: left u is adjacent to right u and every right node after it
+    const n = 4;
+    const edges: [number, number][] = [];
+    for (let u = 0; u < n; u++) {
+      for (let v = u; v < n; v++) {
+        edges.push([u, v]);
+      }
+    }
+    const graph = createBipartiteGraph(n, n, edges);
+
+    const { blocks, leftSurplus, rightSurplus } = dulmageMendelsohn(graph);
+
+    expect(blocks).toEqual([0, 1, 2, 3].map(i => ({ left: [i], right: [i] })));
+    expect(leftSurplus).toEqual({ left: [], right: [] });
+    expect(rightSurplus).toEqual({ left: [], right: [] });
+  });
+
+  test("handles the empty graph", () => {
+    const decomposition = dulmageMendelsohn(createBipartiteGraph(0, 0, []));
+
+    expect(decomposition.square).toEqual({ left: [], right: [] });
+    expect(decomposition.blocks).toEqual([]);
+  });
+
+  test("handles long paths without recursion", () => {
+    // Path of 100k pairs: left u is adjacent to right u and right u + 1
+    const n = 100_000;
+    const edges: [number, number][] = [];
+    for (let u = 0; u < n; u++) {
+      edges.push([u, u]);
+      if (u + 1 < n) {
+        edges.push([u, u + 1]);
+      }
+    }
+    const graph = createBipartiteGraph(n, n, edges);
+
+    const { blocks } = dulmageMendelsohn(graph);
+
+    expect(blocks).toHaveLength(n);
+    expect(blocks[n - 1]).toEqual({ left: [n - 1], right: [n - 1] });
+  });
+});
@@ -0,0 +1,273 @@
+/**
+ * Dulmage-Mendelsohn decomposition of a bipartite graph, and classification
+ * of every edge as belonging to all, some or no maximum matchings.
+ *
+ * Given one maximum matching, vertices reachable by alternating paths from
+ * unmatched left nodes form the left surplus part, those reachable from
+ * unmatched right nodes form the right surplus part, and the rest is a
+ * perfectly matched square part. The square part further splits into blocks:
+ * strongly connected components of the digraph with an arc from matched pair
+ * (u, v) to matched pair (w, x) whenever u is adjacent to x.
+ */
+
+import { BipartiteGraph, BipartiteGraphError, HopcroftKarp, Matching } from "./hopkroft-karp";
+
+/** Whether an edge is in every maximum matching, in some, or in none */
+export type EdgeClass = "mandatory" | "allowed" | "forbidden";
+
+export interface DecompositionPart {
+  /** Left nodes in the part, sorted */
+  readonly left: readonly number[];
+  /** Right nodes in the part, sorted */
+  readonly right: readonly number[];
+}
+
+export interface DulmageMendelsohnDecomposition {
+  /** The maximum matching the decomposition was computed from */
+  readonly matching: Matching;
+  /** Nodes reachable by alternating paths from unmatched left nodes; has more left than right nodes */
+  readonly leftSurplus: DecompositionPart;
+  /** Nodes perfectly matched among themselves in every maximum matching */
+  readonly square: DecompositionPart;
+  /** Nodes reachable by alternating paths from unmatched right nodes; has more right than left nodes */
+  readonly rightSurplus: DecompositionPart;
+  /**
+   * Fine decomposition of the square part in topological order: edges from a
+   * left node in blocks[i] only reach right nodes of the square part in
+   * blocks[j] with j >= i.
+   */
+  readonly blocks: readonly DecompositionPart[];
+}
+
+/**
+ * Computes the coarse and fine Dulmage-Mendelsohn decomposition.
+ *
+ * @param graph The bipartite graph
+ * @param matching A maximum matching of the graph (computed if omitted)
+ * @throws {BipartiteGraphError} If the given matching is not maximum
+ */
+export function dulmageMendelsohn(
+  graph: BipartiteGraph,
+  matching: Matching = new HopcroftKarp(graph).findMaximumMatching()
+): DulmageMendelsohnDecomposition {
+  const labels = labelNodes(graph, matching);
+  const newPart = (): { left: number[]; right: number[] } => ({ left: [], right: [] });
+  const leftSurplus = newPart();
+  const rightSurplus = newPart();
+  const square = newPart();
+  const blocks = Array.from({ length: labels.blockCount }, newPart);
+  const partOf = (label: number): { left: number[]; right: number[] } =>
+    label === LEFT_SURPLUS ? leftSurplus : label === RIGHT_SURPLUS ? rightSurplus : blocks[label];
+
+  labels.left.forEach((label, u) => {
+    partOf(label).left.push(u);
+    if (label >= 0) {
+      square.left.push(u);
+    }
+  });
+  labels.right.forEach((label, v) => {
+    partOf(label).right.push(v);
+    if (label >= 0) {
+      square.right.push(v);
+    }
+  });
+
+  return { matching, leftSurplus, square, rightSurplus, blocks };
+}
+
+/**
+ * Classifies every edge by whether it belongs to all, some or no maximum
+ * matchings. Forbidden edges can be pruned, e.g. when filtering an
+ * alldifferent constraint, without losing any maximum matching.
+ *
+ * @param graph The bipartite graph
+ * @param matching A maximum matching of the graph (computed if omitted)
+ * @returns Classes parallel to graph.edges: result[u][i] classifies the edge to graph.edges[u][i]
+ * @throws {BipartiteGraphError} If the given matching is not maximum
+ */
+export function classifyEdges(
+  graph: BipartiteGraph,
+  matching: Matching = new HopcroftKarp(graph).findMaximumMatching()
+): EdgeClass[][] {
+  const labels = labelNodes(graph, matching);
+
+  return graph.edges.map((adjacent, u) => adjacent.map((v): EdgeClass => {
+    const part = labels.left[u];
+    if (part !== labels.right[v]) {
+      return "forbidden";
+    }
+    if (matching.matchLeft[u] === v && part >= 0 && labels.blockSizes[part] === 1) {
+      return "mandatory";
+    }
+    return "allowed";
+  }));
+}
+
+const LEFT_SURPLUS = -1;
+const RIGHT_SURPLUS = -2;
+
+/**
+ * Labels every node with its block index in the square part, or LEFT_SURPLUS
+ * or RIGHT_SURPLUS. Two endpoints of an edge share a label exactly when the
+ * edge is in some maximum matching.
+ */
+function labelNodes(
+  graph: BipartiteGraph,
+  matching: Matching
+): { left: Int32Array; right: Int32Array; blockCount: number; blockSizes: number[] } {
+  const { leftSize, rightSize, edges } = graph;
+  const { matchLeft, matchRight } = matching;
+  const left = new Int32Array(leftSize);
+  const right = new Int32Array(rightSize);
+  const UNLABELLED = 0x7fffffff;
+  left.fill(UNLABELLED);
+  right.fill(UNLABELLED);
+
+  // Left surplus: alternate from unmatched left nodes along any edge, back along matched edges
+  const queue: number[] = [];
+  for (let u = 0; u < leftSize; u++) {
+    if (matchLeft[u] === -1) {
+      left[u] = LEFT_SURPLUS;
+      queue.push(u);
+    }
+  }
+  for (let head = 0; head < queue.length; head++) {
+    for (const v of edges[queue[head]]) {
+      if (right[v] !== UNLABELLED) {
+        continue;
+      }
+      const w = matchRight[v];
+      if (w === -1) {
+        throw new BipartiteGraphError(
+          `Matching is not maximum: right node ${v} is reachable by an augmenting path`
+        );
+      }
+      right[v] = LEFT_SURPLUS;
+      if (left[w] === UNLABELLED) {
+        left[w] = LEFT_SURPLUS;
+        queue.push(w);
+      }
+    }
+  }
+
+  // Right surplus: the same from unmatched right nodes, over reversed edges
+  const reversed: number[][] = Array.from({ length: rightSize }, () => []);
+  for (let u = 0; u < leftSize; u++) {
+    for (const v of edges[u]) {
+      reversed[v].push(u);
+    }
+  }
+  queue.length = 0;
+  for (let v = 0; v < rightSize; v++) {
+    if (matchRight[v] === -1) {
+      right[v] = RIGHT_SURPLUS;
+      queue.push(v);
+    }
+  }
+  for (let head = 0; head < queue.length; head++) {
+    for (const u of reversed[queue[head]]) {
+      if (left[u] !== UNLABELLED) {
+        continue;
+      }
+      const x = matchLeft[u];
+      left[u] = RIGHT_SURPLUS;
+      if (right[x] === UNLABELLED) {
+        right[x] = RIGHT_SURPLUS;
+        queue.push(x);
+      }
+    }
+  }
+
+  // Square part: strongly connected components of the matched pairs left over
+  const inSquare = (u: number): boolean => left[u] === UNLABELLED;
+  const components = stronglyConnectedComponents(leftSize, inSquare, (u, visit) => {
+    for (const v of edges[u]) {
+      const w = matchRight[v];
+      if (w !== -1 && w !== u && inSquare(w)) {
+        visit(w);
+      }
+    }
+  });
+
+  // Tarjan finds sinks first; number blocks so that arcs go to later blocks
+  const blockSizes: number[] = [];
+  components.reverse().forEach((component, block) => {
+    blockSizes.push(component.length);
+    for (const u of component) {
+      left[u] = block;
+      right[matchLeft[u]] = block;
+    }
+  });
+
+  return { left, right, blockCount: components.length, blockSizes };
+}
+
+/**
+ * Tarjan's strongly connected components algorithm with an explicit stack.
+ *
+ * @returns Components in reverse topological order (sinks first)
+ */
+function stronglyConnectedComponents(
+  n: number,
+  includes: (u: number) => boolean,
+  forEachSuccessor: (u: number, visit: (w: number) => void) => void
+): number[][] {
+  const index = new Int32Array(n).fill(-1);
+  const lowLink = new Int32Array(n);
+  const onStack = new Uint8Array(n);
+  const stack: number[] = [];
+  const components: number[][] = [];
+  let counter = 0;
+
+  for (let root = 0; root < n; root++) {
+    if (!includes(root) || index[root] !== -1) {
+      continue;
+    }
+
+    // Each frame holds a node and its successors still to visit
+    const frames: { u: number; successors: number[]; next: number }[] = [];
+    const open = (u: number): void => {
+      index[u] = lowLink[u] = counter++;
+      stack.push(u);
+      onStack[u] = 1;
+      const successors: number[] = [];
+      forEachSuccessor(u, w => successors.push(w));
+      frames.push({ u, successors, next: 0 });
+    };
+    open(root);
+
+    while (frames.length > 0) {
+      const frame = frames[frames.length - 1];
+      const { u, successors } = frame;
+
+      if (frame.next < successors.length) {
+        const w = successors[frame.next++];
+        if (index[w] === -1) {
+          open(w);
+        } else if (onStack[w] === 1) {
+          lowLink[u] = Math.min(lowLink[u], index[w]);
+        }
+        continue;
+      }
+
+      frames.pop();
+      if (frames.length > 0) {
+        const parent = frames[frames.length - 1].u;
+        lowLink[parent] = Math.min(lowLink[parent], lowLink[u]);
+      }
+
+      if (lowLink[u] === index[u]) {
+        const component: number[] = [];
+        let w: number;
+        do {
+          w = stack.pop() ?? u;
+          onStack[w] = 0;
+          component.push(w);
+        } while (w !== u);
+        components.push(component);
+      }
+    }
+  }
+
+  return components;
+}
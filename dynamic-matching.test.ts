@@ -0,0 +1,192 @@
+import { describe, test, expect } from "bun:test";
+
+import { BipartiteGraphError, HopcroftKarp, Matching } from "./hopkroft-karp";
+import { DynamicHopcroftKarp, MutableBipartiteGraph } from "./dynamic-matching";
+
+/**
+ * Checks that the matching is consistent and only uses edges of the graph.
+ */
+function expectValidMatching(graph: MutableBipartiteGraph, matching: Matching): void {
+  expect(matching.matchLeft).toHaveLength(graph.leftSize);
+  expect(matching.matchRight).toHaveLength(graph.rightSize);
+
+  let size = 0;
+  for (let u = 0; u < graph.leftSize; u++) {
+    const v = matching.matchLeft[u];
+    if (v !== -1) {
+      expect(graph.hasEdge(u, v)).toBe(true);
+      expect(matching.matchRight[v]).toBe(u);
+      size++;
+    }
+  }
+  expect(matching.size).toBe(size);
+}
+
+describe("MutableBipartiteGraph", () => {
+  test("adds and removes edges", () => {
+    const graph = new MutableBipartiteGraph(2, 2, [[0, 0]]);
+
+    expect(graph.addEdge(1, 1)).toBe(true);
+    expect(graph.addEdge(1, 1)).toBe(false);
+    expect(graph.edges).toEqual([[0], [1]]);
+    expect(graph.neighboursOfRight(1)).toEqual([1]);
+
+    expect(graph.removeEdge(0, 0)).toBe(true);
+    expect(graph.removeEdge(0, 0)).toBe(false);
+    expect(graph.edges).toEqual([[], [1]]);
+    expect(graph.neighboursOfRight(0)).toEqual([]);
+  });
+
+  test("removing a vertex shifts higher indices down", () => {
+    const graph = new MutableBipartiteGraph(3, 3, [
+      [0, 0], [1, 1], [2, 2], [2, 0]
+    ]);
+
+    graph.removeLeftVertex(1);
+    expect(graph.leftSize).toBe(2);
+    expect(graph.edges).toEqual([[0], [2, 0]]);
+    expect(graph.neighboursOfRight(0)).toEqual([0, 1]);
+
+    graph.removeRightVertex(0);
+    expect(graph.rightSize).toBe(2);
+    expect(graph.edges).toEqual([[], [1]]);
+    expect(graph.neighboursOfRight(1)).toEqual([1]);
+  });
+
+  test("throws error for invalid vertices", () => {
+    const graph = new MutableBipartiteGraph(2, 2);
+
+    expect(() => graph.addEdge(2, 0)).toThrow(BipartiteGraphError);
+    expect(() => graph.addEdge(0, -1)).toThrow(BipartiteGraphError);
+    expect(() => graph.addLeftVertex([5])).toThrow(BipartiteGraphError);
+    expect(() => graph.removeRightVertex(2)).toThrow(BipartiteGraphError);
+    expect(graph.leftSize).toBe(2);
+  });
+
+  test("throws error for invalid sizes", () => {
+    for (const size of [-1, 1.5, NaN, Infinity]) {
+      expect(() => new MutableBipartiteGraph(size, 1)).toThrow(BipartiteGraphError);
+      expect(() => new MutableBipartiteGraph(1, size)).toThrow(BipartiteGraphError);
+    }
+    expect(() => new MutableBipartiteGraph(NaN, 1)).toThrow("leftSize must be a non-negative integer, got NaN");
+  });
+});
+
+describe("DynamicHopcroftKarp", () => {
+  test("adding an edge between free nodes matches them", () => {
+    const graph = new MutableBipartiteGraph(2, 2, [[0, 0]]);
+    const hk = new DynamicHopcroftKarp(graph);
+    expect(hk.findMaximumMatching().size).toBe(1);
+
+    hk.addEdge(1, 1);
+
+    expect(hk.size).toBe(2);
+    expectValidMatching(graph, hk.getMatching());
+  });
+
+  test("adding an edge repairs the matching through an augmenting path", () => {
+    const graph = new MutableBipartiteGraph(2, 2, [[0, 0], [1, 0]]);
+    const hk = new DynamicHopcroftKarp(graph);
+    expect(hk.findMaximumMatching().size).toBe(1);
+
+    // Whichever left node holds right node 0, the new edge lets both be matched
+    hk.addEdge(0, 1);
+
+    expect(hk.size).toBe(2);
+    expectValidMatching(graph, hk.getMatching());
+  });
+
+  test("removing a matched edge rematches its endpoints", () => {
+    const graph = new MutableBipartiteGraph(2, 2, [
+      [0, 0], [0, 1], [1, 0]
+    ]);
+    const hk = new DynamicHopcroftKarp(graph);
+    const matching = hk.findMaximumMatching();
+    expect(matching.matchLeft).toEqual([1, 0]);
+
+    hk.removeEdge(0, 1);
+
+    expect(hk.size).toBe(1);
+    expectValidMatching(graph, hk.getMatching());
+
+    hk.addEdge(1, 1);
+
+    expect(hk.size).toBe(2);
+    expect(hk.getMatching().matchLeft).toEqual([0, 1]);
+  });
+
+  test("adds and removes vertices", () => {
+    const graph = new MutableBipartiteGraph(2, 2, [[0, 0], [1, 1]]);
+    const hk = new DynamicHopcroftKarp(graph);
+
+    const u = hk.addLeftVertex([0]);
+    expect(u).toBe(2);
+    expect(hk.size).toBe(2);
+
+    const v = hk.addRightVertex([0]);
+    expect(v).toBe(2);
+    expect(hk.size).toBe(3);
+    expectValidMatching(graph, hk.getMatching());
+
+    hk.removeRightVertex(0);
+    expect(hk.size).toBe(2);
+    expectValidMatching(graph, hk.getMatching());
+
+    hk.removeLeftVertex(0);
+    expect(graph.leftSize).toBe(2);
+    expect(hk.size).toBe(1);
+    expect(hk.getMatching().matchLeft).toEqual([0, -1]);
+  });
+
+  test("updates after reset restore a maximum matching first", () => {
+    const graph = new MutableBipartiteGraph(2, 2, [[0, 0], [1, 1]]);
+    const hk = new DynamicHopcroftKarp(graph);
+    hk.findMaximumMatching();
+    hk.reset();
+
+    hk.addEdge(0, 1);
+
+    expect(hk.size).toBe(2);
+    expectValidMatching(graph, hk.getMatching());
+  });
+
+  test("stays maximum through a random stream of updates", () => {
+    // Small linear congruential generator for reproducible updates
+    let seed = 12345;
+    const random = (n: number): number => {
+      seed = (seed * 1103515245 + 12345) % 2147483648;
+      return seed % n;
+    };
+
+    const graph = new MutableBipartiteGraph(8, 8);
+    const hk = new DynamicHopcroftKarp(graph);
+
+    for (let step = 0; step < 500; step++) {
+      const operation = random(10);
+      if (operation < 5 && graph.leftSize > 0 && graph.rightSize > 0) {
+        hk.addEdge(random(graph.leftSize), random(graph.rightSize));
+      } else if (operation < 8 && graph.leftSize > 0) {
+        const u = random(graph.leftSize);
+        if (graph.edges[u].length > 0) {
+          hk.removeEdge(u, graph.edges[u][random(graph.edges[u].length)]);
+        }
+      } else if (operation === 8) {
+        if (random(2) === 0) {
+          hk.addLeftVertex();
+        } else {
+          hk.addRightVertex();
+        }
+      } else if (graph.leftSize > 1 && graph.rightSize > 1) {
+        if (random(2) === 0) {
+          hk.removeLeftVertex(random(graph.leftSize));
+        } else {
+          hk.removeRightVertex(random(graph.rightSize));
+        }
+      }
+
+      const matching = hk.getMatching();
+      expectValidMatching(graph, matching);
+      expect(matching.size).toBe(new HopcroftKarp(graph).findMaximumMatching().size);
+    }
+  });
+});
@@ -0,0 +1,460 @@
+/**
+ * Dynamic bipartite graphs whose maximum matching is repaired after every
+ * edge or vertex update instead of being re-solved from scratch.
+ */
+
+import {
+  BipartiteGraph,
+  BipartiteGraphError,
+  checkGraphSizes,
+  graphIssuesError,
+  HopcroftKarp,
+  HopcroftKarpOptions
+} from "./hopkroft-karp";
+
+/**
+ * A bipartite graph that can be modified after construction.
+ *
+ * Parallel edges are not kept: adding an existing edge is a no-op. Removing a
+ * vertex shifts the indices of all higher vertices on the same side down by one,
+ * like Array.prototype.splice.
+ */
+export class MutableBipartiteGraph implements BipartiteGraph {
+  private readonly leftAdjacency: number[][];
+  private readonly rightAdjacency: number[][];
+
+  constructor(leftSize = 0, rightSize = 0, edges: readonly [number, number][] = []) {
+    const issues = checkGraphSizes(leftSize, rightSize);
+    if (issues.length > 0) {
+      throw graphIssuesError(issues);
+    }
+
+    this.leftAdjacency = Array.from({ length: leftSize }, () => []);
+    this.rightAdjacency = Array.from({ length: rightSize }, () => []);
+
+    for (const [u, v] of edges) {
+      this.addEdge(u, v);
+    }
+  }
+
+  /**
+   * Creates a mutable copy of an existing graph.
+   */
+  static from(graph: BipartiteGraph): MutableBipartiteGraph {
+    const copy = new MutableBipartiteGraph(graph.leftSize, graph.rightSize);
+    for (let u = 0; u < graph.leftSize; u++) {
+      for (const v of graph.edges[u]) {
+        copy.addEdge(u, v);
+      }
+    }
+    return copy;
+  }
+
+  get leftSize(): number {
+    return this.leftAdjacency.length;
+  }
+
+  get rightSize(): number {
+    return this.rightAdjacency.length;
+  }
+
+  /** Adjacency list: edges[u] contains all right nodes connected to left node u */
+  get edges(): readonly (readonly number[])[] {
+    return this.leftAdjacency;
+  }
+
+  /**
+   * Returns all left nodes connected to right node v.
+   */
+  neighboursOfRight(v: number): readonly number[] {
+    this.checkRight(v);
+    return this.rightAdjacency[v];
+  }
+
+  hasEdge(u: number, v: number): boolean {
+    this.checkLeft(u);
+    this.checkRight(v);
+    return this.leftAdjacency[u].includes(v);
+  }
+
+  /**
+   * Adds an edge between left node u and right node v.
+   *
+   * @returns false if the edge already existed
+   */
+  addEdge(u: number, v: number): boolean {
+    if (this.hasEdge(u, v)) {
+      return false;
+    }
+
+    this.leftAdjacency[u].push(v);
+    this.rightAdjacency[v].push(u);
+    return true;
+  }
+
+  /**
+   * Removes the edge between left node u and right node v.
+   *
+   * @returns false if there was no such edge
+   */
+  removeEdge(u: number, v: number): boolean {
+    if (!this.hasEdge(u, v)) {
+      return false;
+    }
+
+    removeValue(this.leftAdjacency[u], v);
+    removeValue(this.rightAdjacency[v], u);
+    return true;
+  }
+
+  /**
+   * Appends a left node connected to the given right nodes.
+   *
+   * @returns The index of the new left node
+   */
+  addLeftVertex(neighbours: readonly number[] = []): number {
+    neighbours.forEach(v => this.checkRight(v));
+
+    const u = this.leftAdjacency.push([]) - 1;
+    for (const v of neighbours) {
+      this.addEdge(u, v);
+    }
+    return u;
+  }
+
+  /**
+   * Appends a right node connected to the given left nodes.
+   *
+   * @returns The index of the new right node
+   */
+  addRightVertex(neighbours: readonly number[] = []): number {
+    neighbours.forEach(u => this.checkLeft(u));
+
+    const v = this.rightAdjacency.push([]) - 1;
+    for (const u of neighbours) {
+      this.addEdge(u, v);
+    }
+    return v;
+  }
+
+  /**
+   * Removes left node u and its edges. Left nodes above u move down by one.
+   */
+  removeLeftVertex(u: number): void {
+    this.checkLeft(u);
+
+    for (const v of this.leftAdjacency[u]) {
+      removeValue(this.rightAdjacency[v], u);
+    }
+    this.leftAdjacency.splice(u, 1);
+    renumberAbove(this.rightAdjacency, u);
+  }
+
+  /**
+   * Removes right node v and its edges. Right nodes above v move down by one.
+   */
+  removeRightVertex(v: number): void {
+    this.checkRight(v);
+
+    for (const u of this.rightAdjacency[v]) {
+      removeValue(this.leftAdjacency[u], v);
+    }
+    this.rightAdjacency.splice(v, 1);
+    renumberAbove(this.leftAdjacency, v);
+  }
+
+  private checkLeft(u: number): void {
+    if (!Number.isInteger(u) || u < 0 || u >= this.leftSize) {
+      throw new BipartiteGraphError(
+        `Invalid left node ${u}: index must be within range [0, ${this.leftSize-1}]`
+      );
+    }
+  }
+
+  private checkRight(v: number): void {
+    if (!Number.isInteger(v) || v < 0 || v >= this.rightSize) {
+      throw new BipartiteGraphError(
+        `Invalid right node ${v}: index must be within range [0, ${this.rightSize-1}]`
+      );
+    }
+  }
+}
+
+/**
+ * Hopcroft-Karp solver that keeps its matching maximum while the graph changes.
+ *
+ * All updates must go through the solver rather than the graph itself. Once the
+ * matching is maximum, each update repairs it with at most two single-source
+ * augmenting path searches, which only visit the part of the graph reachable
+ * from the change.
+ */
+export class DynamicHopcroftKarp extends HopcroftKarp {
+  private readonly mutableGraph: MutableBipartiteGraph;
+
+  constructor(graph: MutableBipartiteGraph, options: HopcroftKarpOptions = {}) {
+    super(graph, options);
+    this.mutableGraph = graph;
+  }
+
+  /**
+   * Adds an edge and repairs the matching.
+   */
+  addEdge(u: number, v: number): void {
+    this.augment();
+
+    if (!this.mutableGraph.addEdge(u, v)) {
+      return;
+    }
+
+    const NIL = HopcroftKarp.NIL;
+    if (this.matchLeft[u] === NIL && this.matchRight[v] === NIL) {
+      this.match(u, v);
+    } else if (this.matchLeft[u] === NIL) {
+      this.augmentFromLeft(u);
+    } else if (this.matchRight[v] === NIL) {
+      this.augmentFromRight(v);
+    } else {
+      // An augmenting path through a new edge between two matched nodes can
+      // start at any free node, so fall back to a full phase
+      this.isMaximum = false;
+      this.augment();
+    }
+  }
+
+  /**
+   * Removes an edge and repairs the matching.
+   */
+  removeEdge(u: number, v: number): void {
+    this.augment();
+
+    if (!this.mutableGraph.removeEdge(u, v)) {
+      return;
+    }
+
+    // Any new augmenting path must end at one of the endpoints of a removed
+    // matched edge, since otherwise it would have augmented the old matching
+    if (this.matchLeft[u] === v) {
+      this.unmatch(u, v);
+      if (!this.augmentFromLeft(u)) {
+        this.augmentFromRight(v);
+      }
+    }
+  }
+
+  /**
+   * Appends a left node connected to the given right nodes and repairs the matching.
+   *
+   * @returns The index of the new left node
+   */
+  addLeftVertex(neighbours: readonly number[] = []): number {
+    this.augment();
+
+    const u = this.mutableGraph.addLeftVertex(neighbours);
+    this.matchLeft = appendSlot(this.matchLeft);
+    this.augmentFromLeft(u);
+    return u;
+  }
+
+  /**
+   * Appends a right node connected to the given left nodes and repairs the matching.
+   *
+   * @returns The index of the new right node
+   */
+  addRightVertex(neighbours: readonly number[] = []): number {
+    this.augment();
+
+    const v = this.mutableGraph.addRightVertex(neighbours);
+    this.matchRight = appendSlot(this.matchRight);
+    this.augmentFromRight(v);
+    return v;
+  }
+
+  /**
+   * Removes left node u and repairs the matching. Left nodes above u move down by one.
+   */
+  removeLeftVertex(u: number): void {
+    this.augment();
+
+    this.mutableGraph.removeLeftVertex(u);
+
+    const v = this.matchLeft[u];
+    if (v !== HopcroftKarp.NIL) {
+      this.unmatch(u, v);
+    }
+    this.matchLeft = removeSlot(this.matchLeft, u);
+    shiftMatchesAbove(this.matchRight, u);
+
+    if (v !== HopcroftKarp.NIL) {
+      this.augmentFromRight(v);
+    }
+  }
+
+  /**
+   * Removes right node v and repairs the matching. Right nodes above v move down by one.
+   */
+  removeRightVertex(v: number): void {
+    this.augment();
+
+    this.mutableGraph.removeRightVertex(v);
+
+    const u = this.matchRight[v];
+    if (u !== HopcroftKarp.NIL) {
+      this.unmatch(u, v);
+    }
+    this.matchRight = removeSlot(this.matchRight, v);
+    shiftMatchesAbove(this.matchLeft, v);
+
+    if (u !== HopcroftKarp.NIL) {
+      this.augmentFromLeft(u);
+    }
+  }
+
+  private match(u: number, v: number): void {
+    this.matchLeft[u] = v;
+    this.matchRight[v] = u;
+    this.matchedCount++;
+  }
+
+  private unmatch(u: number, v: number): void {
+    this.matchLeft[u] = HopcroftKarp.NIL;
+    this.matchRight[v] = HopcroftKarp.NIL;
+    this.matchedCount--;
+  }
+
+  /**
+   * Searches for an augmenting path starting at free left node root and flips it.
+   */
+  private augmentFromLeft(root: number): boolean {
+    const NIL = HopcroftKarp.NIL;
+    // reachedFrom[v] = left node through which right node v was first reached
+    const reachedFrom = new Map<number, number>();
+    const queue = [root];
+
+    for (let head = 0; head < queue.length; head++) {
+      const u = queue[head];
+      for (const v of this.mutableGraph.edges[u]) {
+        if (reachedFrom.has(v)) {
+          continue;
+        }
+        reachedFrom.set(v, u);
+
+        if (this.matchRight[v] === NIL) {
+          // Flip the path back to the root
+          let current = v;
+          for (;;) {
+            const left = reachedFrom.get(current) ?? root;
+            const previous = this.matchLeft[left];
+            this.matchLeft[left] = current;
+            this.matchRight[current] = left;
+            if (left === root) {
+              break;
+            }
+            current = previous;
+          }
+          this.matchedCount++;
+          return true;
+        }
+
+        queue.push(this.matchRight[v]);
+      }
+    }
+
+    return false;
+  }
+
+  /**
+   * Searches for an augmenting path starting at free right node root and flips it.
+   */
+  private augmentFromRight(root: number): boolean {
+    const NIL = HopcroftKarp.NIL;
+    // reachedFrom[u] = right node through which left node u was first reached
+    const reachedFrom = new Map<number, number>();
+    const queue = [root];
+
+    for (let head = 0; head < queue.length; head++) {
+      const v = queue[head];
+      for (const u of this.mutableGraph.neighboursOfRight(v)) {
+        if (reachedFrom.has(u)) {
+          continue;
+        }
+        reachedFrom.set(u, v);
+
+        if (this.matchLeft[u] === NIL) {
+          // Flip the path back to the root
+          let current = u;
+          for (;;) {
+            const right = reachedFrom.get(current) ?? root;
+            const previous = this.matchRight[right];
+            this.matchRight[right] = current;
+            this.matchLeft[current] = right;
+            if (right === root) {
+              break;
+            }
+            current = previous;
+          }
+          this.matchedCount++;
+          return true;
+        }
+
+        queue.push(this.matchLeft[u]);
+      }
+    }
+
+    return false;
+  }
+}
+
+function removeValue(values: number[], value: number): void {
+  const index = values.indexOf(value);
+  if (index !== -1) {
+    values.splice(index, 1);
+  }
+}
+
+/**
+ * Removes every occurrence of index and shifts higher indices down by one.
+ */
+function renumberAbove(lists: number[][], index: number): void {
+  for (const list of lists) {
+    let write = 0;
+    for (let read = 0; read < list.length; read++) {
+      const value = list[read];
+      if (value === index) {
+        continue;
+      }
+      list[write++] = value > index ? value - 1 : value;
+    }
+    list.length = write;
+  }
+}
+
+/**
+ * Returns a copy of a match array with an unmatched slot appended.
+ */
+function appendSlot(match: Int32Array): Int32Array {
+  const grown = new Int32Array(match.length + 1);
+  grown.set(match);
+  grown[match.length] = -1;
+  return grown;
+}
+
+/**
+ * Returns a copy of a match array without the slot at index.
+ */
+function removeSlot(match: Int32Array, index: number): Int32Array {
+  const shrunk = new Int32Array(match.length - 1);
+  shrunk.set(match.subarray(0, index));
+  shrunk.set(match.subarray(index + 1), index);
+  return shrunk;
+}
+
+/**
+ * Moves matches to nodes above a removed index down by one.
+ */
+function shiftMatchesAbove(match: Int32Array, index: number): void {
+  for (let i = 0; i < match.length; i++) {
+    if (match[i] > index) {
+      match[i]--;
+    }
+  }
+}
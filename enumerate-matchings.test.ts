@@ -0,0 +1,142 @@
+import { describe, test, expect } from "bun:test";
+
+import { BipartiteGraph, createBipartiteGraph } from "./hopkroft-karp";
+import { countPerfectMatchings, enumerateMaximumMatchings } from "./enumerate-matchings";
+import { createRandom, randomDenseGraph } from "./test-helpers";
+
+/**
+ * Brute force: all maximum matchings as matchLeft strings.
+ */
+function bruteForce(graph: BipartiteGraph): Set<string> {
+  let best = 0;
+  let found = new Set<string>();
+  const matchLeft: number[] = new Array(graph.leftSize).fill(-1);
+  const usedRight = new Array(graph.rightSize).fill(false);
+
+  const search = (u: number, size: number): void => {
+    if (u === graph.leftSize) {
+      if (size > best) {
+        best = size;
+        found = new Set();
+      }
+      if (size === best) {
+        found.add(matchLeft.join(","));
+      }
+      return;
+    }
+
+    search(u + 1, size);
+    for (const v of new Set(graph.edges[u])) {
+      if (!usedRight[v]) {
+        usedRight[v] = true;
+        matchLeft[u] = v;
+        search(u + 1, size + 1);
+        matchLeft[u] = -1;
+        usedRight[v] = false;
+      }
+    }
+  };
+
+  search(0, 0);
+  return found;
+}
+
+function completeGraph(n: number): BipartiteGraph {
+  const edges: [number, number][] = [];
+  for (let u = 0; u < n; u++) {
+    for (let v = 0; v < n; v++) {
+      edges.push([u, v]);
+    }
+  }
+  return createBipartiteGraph(n, n, edges);
+}
+
+describe("enumerateMaximumMatchings", () => {
+  test("yields every perfect matching of a complete graph once", () => {
+    const matchings = [...enumerateMaximumMatchings(completeGraph(4))];
+    const distinct = new Set(matchings.map(m => m.matchLeft.join(",")));
+
+    expect(matchings).toHaveLength(24);
+    expect(distinct.size).toBe(24);
+    for (const matching of matchings) {
+      expect(matching.size).toBe(4);
+      matching.matchLeft.forEach((v, u) => expect(matching.matchRight[v]).toBe(u));
+    }
+  });
+
+  test("yields a single matching when it is unique", () => {
+    const graph = createBipartiteGraph(3, 3, [
+      [0, 0], [0, 1],
+      [1, 1],
+      [2, 2], [2, 0]
+    ]);
+
+    // Right node 2 is only reachable from left node 2, which forces the rest
+    const matchings = [...enumerateMaximumMatchings(graph)];
+
+    expect(matchings).toHaveLength(1);
+    expect(matchings[0].matchLeft).toEqual([0, 1, 2]);
+  });
+
+  test("includes matchings that leave different vertices free", () => {
+    // Left nodes 0 and 1 compete for right node 0
+    const graph = createBipartiteGraph(2, 2, [[0, 0], [1, 0]]);
+
+    const matchings = [...enumerateMaximumMatchings(graph)];
+
+    expect(matchings.map(m => m.matchLeft).sort()).toEqual([[-1, 0], [0, -1]]);
+  });
+
+  test("treats parallel edges as one edge", () => {
+    const graph = createBipartiteGraph(1, 1, [[0, 0], [0, 0]]);
+
+    expect([...enumerateMaximumMatchings(graph)]).toHaveLength(1);
+  });
+
+  test("is lazy", () => {
+    const iterator = enumerateMaximumMatchings(completeGraph(12));
+
+    const first = iterator.next();
+    const second = iterator.next();
+
+    expect(first.value?.size).toBe(12);
+    expect(second.value?.matchLeft).not.toEqual(first.value?.matchLeft);
+  });
+
+  test("matches brute force on random graphs", () => {
+    const random = createRandom(7);
+
+    for (let trial = 0; trial < 150; trial++) {
+      const leftSize = 1 + random(5);
+      const rightSize = 1 + random(5);
+      const graph = randomDenseGraph(random, leftSize, rightSize, 2);
+
+      const matchings = [...enumerateMaximumMatchings(graph)].map(m => m.matchLeft.join(","));
+
+      expect(new Set(matchings).size).toBe(matchings.length);
+      expect(new Set(matchings)).toEqual(bruteForce(graph));
+    }
+  });
+});
+
+describe("countPerfectMatchings", () => {
+  test("counts perfect matchings", () => {
+    expect(countPerfectMatchings(completeGraph(5))).toBe(120);
+    expect(countPerfectMatchings(createBipartiteGraph(0, 0, []))).toBe(1);
+  });
+
+  test("stops at the limit", () => {
+    expect(countPerfectMatchings(completeGraph(10), 1000)).toBe(1000);
+  });
+
+  test("detects a unique perfect matching", () => {
+    const graph = createBipartiteGraph(2, 2, [[0, 0], [0, 1], [1, 1]]);
+
+    expect(countPerfectMatchings(graph, 2)).toBe(1);
+  });
+
+  test("returns 0 when no perfect matching exists", () => {
+    expect(countPerfectMatchings(createBipartiteGraph(2, 2, [[0, 0], [1, 0]]))).toBe(0);
+    expect(countPerfectMatchings(createBipartiteGraph(1, 2, [[0, 0], [0, 1]]))).toBe(0);
+  });
+});
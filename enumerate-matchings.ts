@@ -0,0 +1,247 @@
+/**
+ * Enumeration of all maximum matchings of a bipartite graph.
+ *
+ * Follows Uno's binary partition scheme: given a maximum matching M, any other
+ * maximum matching differs from it by an alternating cycle or an even
+ * alternating path from a free vertex. Finding one gives a second matching M'
+ * and an edge e in M but not M'; the remaining matchings then split into those
+ * containing e (with M) and those avoiding e (with M'), which are explored
+ * independently. Every matching is produced exactly once, with O(V + E) work
+ * between consecutive matchings.
+ */
+
+import { BipartiteGraph, HopcroftKarp, Matching } from "./hopkroft-karp";
+
+/**
+ * One subproblem of the partition: the maximum matchings of the graph that
+ * contain every forced edge (whose endpoints are removed) and avoid every
+ * excluded edge, represented by one such matching.
+ */
+interface Subproblem {
+  readonly matchLeft: Int32Array;
+  readonly matchRight: Int32Array;
+  readonly removedLeft: Uint8Array;
+  readonly removedRight: Uint8Array;
+  readonly excluded: ReadonlySet<number>;
+}
+
+/**
+ * Lazily yields every maximum matching of the graph, each exactly once.
+ * Parallel edges are treated as a single edge.
+ *
+ * The first matching yielded is the one HopcroftKarp finds. Stop iterating
+ * early to get only the first few alternatives.
+ */
+export function* enumerateMaximumMatchings(graph: BipartiteGraph): Generator<Matching> {
+  const adjacency = graph.edges.map(adjacent => [...new Set(adjacent)]);
+  const first = new HopcroftKarp(graph).findMaximumMatching();
+
+  yield first;
+
+  const stack: Subproblem[] = [{
+    matchLeft: Int32Array.from(first.matchLeft),
+    matchRight: Int32Array.from(first.matchRight),
+    removedLeft: new Uint8Array(graph.leftSize),
+    removedRight: new Uint8Array(graph.rightSize),
+    excluded: new Set()
+  }];
+
+  for (let subproblem = stack.pop(); subproblem; subproblem = stack.pop()) {
+    const alternative = findAlternative(graph, adjacency, subproblem);
+    if (alternative === null) {
+      continue;
+    }
+
+    const { matchLeft, matchRight, u, v } = alternative;
+    yield toMatching(matchLeft, matchRight);
+
+    // Matchings avoiding (u, v), represented by the alternative
+    stack.push({
+      ...subproblem,
+      matchLeft,
+      matchRight,
+      excluded: new Set(subproblem.excluded).add(edgeKey(graph, u, v))
+    });
+
+    // Matchings containing (u, v), represented by the current matching
+    const removedLeft = subproblem.removedLeft.slice();
+    const removedRight = subproblem.removedRight.slice();
+    removedLeft[u] = 1;
+    removedRight[v] = 1;
+    stack.push({ ...subproblem, removedLeft, removedRight });
+  }
+}
+
+/**
+ * Counts the perfect matchings of the graph, stopping once limit is reached.
+ *
+ * @param graph The bipartite graph
+ * @param limit Maximum count to report (default: no limit)
+ * @returns The number of perfect matchings, or limit if there are at least that many
+ */
+export function countPerfectMatchings(graph: BipartiteGraph, limit = Infinity): number {
+  if (graph.leftSize !== graph.rightSize) {
+    return 0;
+  }
+
+  let count = 0;
+  for (const matching of enumerateMaximumMatchings(graph)) {
+    if (count >= limit || matching.size !== graph.leftSize) {
+      break;
+    }
+    count++;
+  }
+  return count;
+}
+
+/**
+ * Finds a maximum matching of the subproblem different from its current one.
+ *
+ * @returns The new matching and an edge (u, v) of the current matching it does not use
+ */
+function findAlternative(
+  graph: BipartiteGraph,
+  adjacency: readonly (readonly number[])[],
+  subproblem: Subproblem
+): { matchLeft: Int32Array; matchRight: Int32Array; u: number; v: number } | null {
+  const { removedLeft, removedRight, excluded } = subproblem;
+  const matchLeft = subproblem.matchLeft.slice();
+  const matchRight = subproblem.matchRight.slice();
+  const allowed = (u: number, v: number): boolean =>
+    removedRight[v] === 0 && !excluded.has(edgeKey(graph, u, v));
+
+  // Even alternating path of length two from a free left node: take over a matched right node
+  for (let f = 0; f < graph.leftSize; f++) {
+    if (removedLeft[f] === 1 || matchLeft[f] !== -1) {
+      continue;
+    }
+    for (const v of adjacency[f]) {
+      if (allowed(f, v) && matchRight[v] !== -1) {
+        const u = matchRight[v];
+        matchLeft[u] = -1;
+        matchLeft[f] = v;
+        matchRight[v] = f;
+        return { matchLeft, matchRight, u, v };
+      }
+    }
+  }
+
+  // Even alternating path of length two from a free right node: take over a matched left node
+  for (let u = 0; u < graph.leftSize; u++) {
+    const v = matchLeft[u];
+    if (removedLeft[u] === 1 || v === -1) {
+      continue;
+    }
+    for (const g of adjacency[u]) {
+      if (g !== v && allowed(u, g) && matchRight[g] === -1) {
+        matchRight[v] = -1;
+        matchLeft[u] = g;
+        matchRight[g] = u;
+        return { matchLeft, matchRight, u, v };
+      }
+    }
+  }
+
+  // Alternating cycle: u -> w when u has a free edge to the partner of w
+  const cycle = findCycle(graph.leftSize, (u, visit) => {
+    if (removedLeft[u] === 1 || matchLeft[u] === -1) {
+      return;
+    }
+    for (const v of adjacency[u]) {
+      if (v !== matchLeft[u] && allowed(u, v) && matchRight[v] !== -1) {
+        visit(matchRight[v]);
+      }
+    }
+  });
+
+  if (cycle === null) {
+    return null;
+  }
+
+  const u = cycle[0];
+  const v = matchLeft[u];
+  const partners = cycle.map(w => matchLeft[w]);
+  cycle.forEach((w, i) => {
+    const next = partners[(i + 1) % cycle.length];
+    matchLeft[w] = next;
+    matchRight[next] = w;
+  });
+  return { matchLeft, matchRight, u, v };
+}
+
+/**
+ * Finds a directed cycle with an iterative depth-first search.
+ *
+ * @param n Number of nodes
+ * @param forEachSuccessor Calls visit for each successor of a node
+ * @returns The nodes of a cycle in order, or null if the graph is acyclic
+ */
+function findCycle(
+  n: number,
+  forEachSuccessor: (u: number, visit: (w: number) => void) => void
+): number[] | null {
+  const UNSEEN = 0;
+  const ACTIVE = 1;
+  const FINISHED = 2;
+  const state = new Uint8Array(n);
+  const successors: number[][] = [];
+
+  for (let root = 0; root < n; root++) {
+    if (state[root] !== UNSEEN) {
+      continue;
+    }
+
+    const path = [root];
+    const positions = [0];
+    state[root] = ACTIVE;
+    successors[root] = collect(forEachSuccessor, root);
+
+    while (path.length > 0) {
+      const u = path[path.length - 1];
+      const position = positions[positions.length - 1]++;
+
+      if (position >= successors[u].length) {
+        state[u] = FINISHED;
+        path.pop();
+        positions.pop();
+        continue;
+      }
+
+      const w = successors[u][position];
+      if (state[w] === ACTIVE) {
+        return path.slice(path.indexOf(w));
+      }
+      if (state[w] === UNSEEN) {
+        state[w] = ACTIVE;
+        successors[w] = collect(forEachSuccessor, w);
+        path.push(w);
+        positions.push(0);
+      }
+    }
+  }
+
+  return null;
+}
+
+function collect(
+  forEachSuccessor: (u: number, visit: (w: number) => void) => void,
+  u: number
+): number[] {
+  const result: number[] = [];
+  forEachSuccessor(u, w => result.push(w));
+  return result;
+}
+
+function edgeKey(graph: BipartiteGraph, u: number, v: number): number {
+  return u * graph.rightSize + v;
+}
+
+function toMatching(matchLeft: Int32Array, matchRight: Int32Array): Matching {
+  let size = 0;
+  for (const v of matchLeft) {
+    if (v !== -1) {
+      size++;
+    }
+  }
+  return { matchLeft: Array.from(matchLeft), matchRight: Array.from(matchRight), size };
+}
@@ -13,6 +13,10 @@ export default [
       globals: {
         console: 'readonly',
         process: 'readonly',
+        Bun: 'readonly',
+        AbortController: 'readonly',
+        AbortSignal: 'readonly',
+        URL: 'readonly',
       },
     },
     plugins: {
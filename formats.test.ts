@@ -0,0 +1,240 @@
+import { describe, test, expect, spyOn } from "bun:test";
+
+import {
+  BipartiteGraphError,
+  createBipartiteGraph,
+  createWeightedBipartiteGraph
+} from "./hopkroft-karp";
+import {
+  detectGraphFormat,
+  GraphFormat,
+  GraphFormatError,
+  isWeightedBipartiteGraph,
+  parseGraph,
+  parseMatching,
+  serializeGraph,
+  serializeMatching
+} from "./formats";
+
+const graph = createBipartiteGraph(3, 4, [[0, 0], [0, 2], [1, 1], [2, 3]]);
+const weighted = createWeightedBipartiteGraph(2, 3, [[0, 0, 1.5], [0, 2, -2], [1, 1, 7]]);
+
+/**
+ * Expects fn to throw a GraphFormatError at the given position, if any.
+ */
+function expectFormatError(fn: () => unknown, line: number | undefined, column: number | undefined, message: string): void {
+  try {
+    fn();
+  } catch (error) {
+    expect(error).toBeInstanceOf(GraphFormatError);
+    expect(error).toBeInstanceOf(BipartiteGraphError);
+    const { line: actualLine, column: actualColumn } = error as GraphFormatError;
+    expect({ line: actualLine, column: actualColumn }).toEqual({ line, column });
+    expect((error as GraphFormatError).message).toContain(message);
+    return;
+  }
+  throw new Error("Expected a GraphFormatError");
+}
+
+describe("round-tripping", () => {
+  const formats: GraphFormat[] = ["json", "dimacs", "matrix-market", "csv", "tsv"];
+
+  for (const format of formats) {
+    test(`${format} preserves weighted graphs`, () => {
+      const parsed = parseGraph(serializeGraph(weighted, format), format);
+
+      expect(parsed).toEqual(weighted);
+    });
+
+    test(`${format} preserves unweighted graphs`, () => {
+      const parsed = parseGraph(serializeGraph(graph, format), format, { leftSize: 3, rightSize: 4 });
+
+      expect(parsed.leftSize).toBe(3);
+      expect(parsed.rightSize).toBe(4);
+      expect(parsed.edges).toEqual(graph.edges);
+      // DIMACS arcs always have costs
+      expect(isWeightedBipartiteGraph(parsed)).toBe(format === "dimacs");
+    });
+  }
+
+  test("preserves matchings", () => {
+    const matching = { matchLeft: [2, -1, 0], matchRight: [2, -1, 0, -1], size: 2 };
+
+    expect(parseMatching(serializeMatching(matching, "json"), "json")).toEqual(matching);
+    expect(parseMatching(serializeMatching(matching, "csv"), "csv", { leftSize: 3, rightSize: 4 })).toEqual(matching);
+    expect(parseMatching(serializeMatching(matching, "tsv"), "tsv", { leftSize: 3, rightSize: 4 })).toEqual(matching);
+  });
+});
+
+describe("DIMACS", () => {
+  test("splits nodes into left (n lines) and right (the rest) in ID order", () => {
+    const text = [
+      "c assignment instance",
+      "p asn 4 3",
+      "n 3",
+      "n 1",
+      "a 1 2 5",
+      "a 3 2 1",
+      "a 3 4 2"
+    ].join("\n");
+
+    const parsed = parseGraph(text, "dimacs");
+
+    expect(parsed).toEqual({ leftSize: 2, rightSize: 2, edges: [[0], [0, 1]], weights: [[5], [1, 2]] });
+  });
+
+  test("accepts CRLF line endings", () => {
+    const text = "c assignment\r\np asn 4 2\r\nn 1\r\nn 2\r\nc arcs\r\na 1 3 5\r\na 2 4 1\r\n";
+
+    expect(parseGraph(text, "dimacs")).toEqual({ leftSize: 2, rightSize: 2, edges: [[0], [1]], weights: [[5], [1]] });
+  });
+
+  test("reports malformed lines", () => {
+    expectFormatError(() => parseGraph("a 1 2 3", "dimacs"), 1, 1, 'Expected problem line "p asn"');
+    expectFormatError(() => parseGraph("p min 4 1", "dimacs"), 1, 3, 'Expected an assignment problem ("asn")');
+    expectFormatError(() => parseGraph("p asn 2 1\nn 1\na 1 5 0", "dimacs"), 3, 5, "Arc target must be between 1 and 2");
+    expectFormatError(() => parseGraph("p asn 2 1\nn 1\na 1 2 x", "dimacs"), 3, 7, 'Weight must be a finite number, got "x"');
+    expectFormatError(() => parseGraph("p asn 2 1\nn 1\na 2 1 0", "dimacs"), 3, 3, "Arc source 2 is not a left node");
+    expectFormatError(() => parseGraph("p asn 2 2\nn 1\na 1 2 0", "dimacs"), 1, 1, "declares 2 arcs, found 1");
+    expectFormatError(() => parseGraph("p asn 2 0\nx", "dimacs"), 2, 1, 'Unknown line type "x"');
+  });
+});
+
+describe("Matrix Market", () => {
+  test("reads patterns, comments and symmetric matrices", () => {
+    const pattern = "%%MatrixMarket matrix coordinate pattern general\n% comment\n2 3 2\n1 3\n2 1\n";
+    expect(parseGraph(pattern, "matrix-market")).toEqual({ leftSize: 2, rightSize: 3, edges: [[2], [0]] });
+
+    const symmetric = "%%MatrixMarket matrix coordinate integer symmetric\n2 2 2\n1 1 4\n2 1 3\n";
+    expect(parseGraph(symmetric, "matrix-market")).toEqual({
+      leftSize: 2,
+      rightSize: 2,
+      edges: [[0, 1], [0]],
+      weights: [[4, 3], [3]]
+    });
+  });
+
+  test("accepts CRLF line endings", () => {
+    const text = "%%MatrixMarket matrix coordinate pattern general\r\n% comment\r\n2 3 2\r\n1 3\r\n2 1\r\n";
+
+    expect(parseGraph(text, "matrix-market")).toEqual({ leftSize: 2, rightSize: 3, edges: [[2], [0]] });
+  });
+
+  test("reports malformed input", () => {
+    expectFormatError(() => parseGraph("1 1 0", "matrix-market"), 1, 1, "Expected header");
+    expectFormatError(
+      () => parseGraph("%%MatrixMarket matrix array real general\n1 1\n", "matrix-market"),
+      1, 23, 'Unsupported format "array"'
+    );
+    expectFormatError(
+      () => parseGraph("%%MatrixMarket matrix coordinate pattern general\n2 2 1\n1 3\n", "matrix-market"),
+      3, 3, "Column must be between 1 and 2, got 3"
+    );
+    expectFormatError(
+      () => parseGraph("%%MatrixMarket matrix coordinate pattern general\n2 2 2\n1 1\n", "matrix-market"),
+      2, 1, "declares 2 entries, found 1"
+    );
+  });
+});
+
+describe("edge lists", () => {
+  test("skips headers and comments and infers sizes", () => {
+    const text = "left,right,weight\n# preferred shifts\n0,1,2.5\n2, 0, 1 # trailing comment\n";
+
+    expect(parseGraph(text, "csv")).toEqual({
+      leftSize: 3,
+      rightSize: 2,
+      edges: [[1], [], [0]],
+      weights: [[2.5], [], [1]]
+    });
+  });
+
+  test("accepts CRLF line endings", () => {
+    const expected = { leftSize: 3, rightSize: 2, edges: [[1], [], [0]] };
+
+    expect(parseGraph("left,right\r\n# shifts\r\n0,1\r\n2,0 # trailing\r\n", "csv")).toEqual(expected);
+    expect(parseGraph("left\tright\r\n0\t1\r\n# shifts\r\n2\t0\r\n", "tsv")).toEqual(expected);
+    expect(parseMatching("0,1\r\n2,0\r\n", "csv", { leftSize: 3, rightSize: 2 }))
+      .toEqual({ matchLeft: [1, -1, 0], matchRight: [2, 0], size: 2 });
+  });
+
+  test("reports malformed rows", () => {
+    expectFormatError(() => parseGraph("0 0\n1\n", "tsv"), 2, 1, "Expected 2 fields in edge, got 1");
+    expectFormatError(() => parseGraph("0 0\n1 -2\n", "tsv"), 2, 3, "Right node must be at least 0, got -2");
+    expectFormatError(() => parseGraph("0\t1.5\n", "tsv"), 1, 3, 'Right node must be an integer, got "1.5"');
+    expectFormatError(() => parseGraph("0,0\n3,0\n", "csv", { leftSize: 2 }), 2, 1, "Left node 3 is out of range [0, 1]");
+    expectFormatError(() => parseMatching("0,1\n2,1\n", "csv"), 2, 3, "Right node 1 is matched twice");
+  });
+});
+
+describe("JSON", () => {
+  test("accepts documents without format and version", () => {
+    expect(parseGraph('{"edges": [[0, 1]]}', "json")).toEqual({ leftSize: 1, rightSize: 2, edges: [[1]] });
+  });
+
+  test("accepts CRLF line endings", () => {
+    expect(parseGraph('{\r\n  "edges": [\r\n    [0, 1]\r\n  ]\r\n}\r\n', "json")).toEqual({ leftSize: 1, rightSize: 2, edges: [[1]] });
+  });
+
+  test("keeps a __proto__ key as plain data", () => {
+    expect(parseGraph('{"__proto__": {"edges": [[0, 0]]}, "edges": [[0, 1]]}', "json")).toEqual({ leftSize: 1, rightSize: 2, edges: [[1]] });
+    expect(() => parseGraph('{"__proto__": {"edges": [[0, 0]]}}', "json")).toThrow("edges must be an array");
+  });
+
+  test("rejects other formats and versions", () => {
+    expectFormatError(() => parseGraph('{"format": "matching", "pairs": []}', "json"), undefined, undefined, 'Expected "format": "bipartite-graph"');
+    expectFormatError(() => parseGraph('{"version": 2, "edges": []}', "json"), undefined, undefined, "Unsupported version 2");
+  });
+
+  test("reports syntax errors", () => {
+    expect(() => parseGraph('{\n  "edges": [[0, 1],, [1, 1]]\n}', "json")).toThrow(GraphFormatError);
+    expect(() => parseGraph('{"edges": [[0, 1]', "json")).toThrow("Invalid JSON");
+    expect(() => parseGraph('{"edges": []} x', "json")).toThrow("Invalid JSON");
+  });
+
+  test("takes the position of syntax errors from the native message", () => {
+    const parse = spyOn(JSON, "parse");
+    try {
+      parse.mockImplementation(() => {
+        throw new SyntaxError("Unexpected token ',' in JSON at position 20");
+      });
+      expectFormatError(() => parseGraph('{\n  "edges": [[0, 1],, [1, 1]]\n}', "json"), 2, 19, "Invalid JSON: Unexpected token");
+
+      parse.mockImplementation(() => {
+        throw new SyntaxError("Expected ',' or ']' after array element in JSON at position 17 (line 1 column 18)");
+      });
+      expectFormatError(() => parseGraph('{"edges": [[0, 1]', "json"), 1, 18, "Invalid JSON");
+    } finally {
+      parse.mockRestore();
+    }
+  });
+
+  test("names the path of schema errors", () => {
+    const text = '{\n  "leftSize": 1,\n  "edges": [\n    [0, 0],\n    [0, "a"]\n  ]\n}';
+
+    expectFormatError(() => parseGraph(text, "json"), undefined, undefined, 'edges[1][1] must be a non-negative integer node, got "a"');
+    expectFormatError(
+      () => parseGraph('{"leftSize": 1,\n "edges": [[0, 0], [1, 0]]}', "json"),
+      undefined, undefined, "edges[1]: Left node 1 is out of range [0, 0]"
+    );
+    expectFormatError(() => parseGraph('{"edges": [[0, 0, 1], [1, 1]]}', "json"), undefined, undefined, "edges[1] must be an array of 3 numbers");
+    expectFormatError(() => parseGraph('{"leftSize": -1, "edges": []}', "json"), undefined, undefined, "leftSize must be a non-negative integer");
+    expectFormatError(() => parseMatching('{"pairs": [[0, 1], [1, 1]]}', "json"), undefined, undefined, "pairs[1]: Right node 1 is matched twice");
+  });
+});
+
+describe("detectGraphFormat", () => {
+  test("uses the file extension", () => {
+    expect(detectGraphFormat("", "instances/a.MTX")).toBe("matrix-market");
+    expect(detectGraphFormat("", "a.asn")).toBe("dimacs");
+    expect(detectGraphFormat("0 1", "a.csv")).toBe("csv");
+  });
+
+  test("falls back to the contents", () => {
+    expect(detectGraphFormat('  {"edges": []}')).toBe("json");
+    expect(detectGraphFormat("%%MatrixMarket matrix coordinate pattern general")).toBe("matrix-market");
+    expect(detectGraphFormat("c instance\np asn 2 1")).toBe("dimacs");
+    expect(detectGraphFormat("0,1\n1,1")).toBe("csv");
+    expect(detectGraphFormat("0 1\n1 1")).toBe("tsv");
+  });
+});
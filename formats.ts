@@ -0,0 +1,668 @@
+/**
+ * Parsers and serializers for exchanging graphs and matchings as files:
+ *
+ * - "dimacs": DIMACS assignment problems ("p asn" header, "n" lines for left
+ *   nodes, "a" lines for arcs with costs), with 1-based node IDs shared by
+ *   both sides
+ * - "matrix-market": Matrix Market coordinate files, with rows as left nodes
+ *   and columns as right nodes
+ * - "csv" / "tsv": one edge "left,right[,weight]" per line, with an optional
+ *   header row and "#" comments
+ * - "json": a versioned schema, { "format": "bipartite-graph", "version": 1,
+ *   "leftSize", "rightSize", "edges": [[u, v] or [u, v, weight], ...] }
+ *
+ * Formats that carry weights produce a WeightedBipartiteGraph. Malformed input
+ * raises a GraphFormatError pointing at the offending line and column, or for
+ * JSON documents at the offending path such as edges[3].
+ */
+
+import {
+  BipartiteGraph,
+  BipartiteGraphError,
+  createBipartiteGraph,
+  createWeightedBipartiteGraph,
+  Matching,
+  WeightedBipartiteGraph
+} from "./hopkroft-karp";
+
+export type GraphFormat = "json" | "dimacs" | "matrix-market" | "csv" | "tsv";
+export type MatchingFormat = "json" | "csv" | "tsv";
+
+/** Current version of the JSON schemas written by serializeGraph and serializeMatching */
+export const JSON_FORMAT_VERSION = 1;
+
+/**
+ * Options for parsing graphs.
+ */
+export interface ParseGraphOptions {
+  /** Number of left nodes for edge lists, which do not record it (default: largest left index + 1) */
+  leftSize?: number;
+  /** Number of right nodes for edge lists, which do not record it (default: largest right index + 1) */
+  rightSize?: number;
+}
+
+/**
+ * Error thrown for malformed graph or matching files.
+ */
+export class GraphFormatError extends BipartiteGraphError {
+  /**
+   * @param message Description of the problem
+   * @param line 1-based line of the problem, if known
+   * @param column 1-based column of the problem, if known
+   */
+  constructor(
+    message: string,
+    readonly line?: number,
+    readonly column?: number
+  ) {
+    super(line === undefined ? message : `Line ${line}, column ${column ?? 1}: ${message}`);
+    this.name = "GraphFormatError";
+  }
+}
+
+/**
+ * Whether a graph carries edge weights.
+ */
+export function isWeightedBipartiteGraph(graph: BipartiteGraph): graph is WeightedBipartiteGraph {
+  return Array.isArray((graph as Partial<WeightedBipartiteGraph>).weights);
+}
+
+/**
+ * Parses a graph from text.
+ *
+ * @param text File contents
+ * @param format Format of the contents
+ * @param options Node counts for edge lists
+ * @returns The graph, weighted if the file has weights (always for DIMACS)
+ * @throws {GraphFormatError} If the input is malformed or an edge is out of range
+ */
+export function parseGraph(
+  text: string,
+  format: GraphFormat,
+  options: ParseGraphOptions = {}
+): BipartiteGraph | WeightedBipartiteGraph {
+  switch (format) {
+    case "json":
+      return readGraphJson(parseJsonDocument(text));
+    case "dimacs":
+      return parseDimacs(text);
+    case "matrix-market":
+      return parseMatrixMarket(text);
+    case "csv":
+    case "tsv":
+      return parseEdgeList(text, options);
+  }
+}
+
+/**
+ * Serializes a graph, including weights if it has them. Unweighted graphs are
+ * written to DIMACS with cost 0 on every arc.
+ */
+export function serializeGraph(graph: BipartiteGraph, format: GraphFormat): string {
+  const weights = isWeightedBipartiteGraph(graph) ? graph.weights : null;
+  const rows: string[] = [];
+  const edgeCount = graph.edges.reduce((sum, adjacent) => sum + adjacent.length, 0);
+
+  switch (format) {
+    case "json": {
+      const edges = graph.edges.flatMap((adjacent, u) =>
+        adjacent.map((v, i) => (weights ? [u, v, weights[u][i]] : [u, v]))
+      );
+      return `${JSON.stringify({
+        format: "bipartite-graph",
+        version: JSON_FORMAT_VERSION,
+        leftSize: graph.leftSize,
+        rightSize: graph.rightSize,
+        edges
+      })}\n`;
+    }
+    case "dimacs":
+      rows.push(
+        `c bipartite graph: ${graph.leftSize} left nodes, ${graph.rightSize} right nodes`,
+        `p asn ${graph.leftSize + graph.rightSize} ${edgeCount}`
+      );
+      for (let u = 0; u < graph.leftSize; u++) {
+        rows.push(`n ${u + 1}`);
+      }
+      graph.edges.forEach((adjacent, u) => adjacent.forEach((v, i) => {
+        rows.push(`a ${u + 1} ${graph.leftSize + v + 1} ${weights ? weights[u][i] : 0}`);
+      }));
+      break;
+    case "matrix-market":
+      rows.push(
+        `%%MatrixMarket matrix coordinate ${weights ? "real" : "pattern"} general`,
+        `${graph.leftSize} ${graph.rightSize} ${edgeCount}`
+      );
+      graph.edges.forEach((adjacent, u) => adjacent.forEach((v, i) => {
+        rows.push(weights ? `${u + 1} ${v + 1} ${weights[u][i]}` : `${u + 1} ${v + 1}`);
+      }));
+      break;
+    case "csv":
+    case "tsv": {
+      const separator = format === "csv" ? "," : "\t";
+      rows.push((weights ? ["left", "right", "weight"] : ["left", "right"]).join(separator));
+      graph.edges.forEach((adjacent, u) => adjacent.forEach((v, i) => {
+        rows.push((weights ? [u, v, weights[u][i]] : [u, v]).join(separator));
+      }));
+      break;
+    }
+  }
+
+  return rows.join("\n") + "\n";
+}
+
+/**
+ * Parses a matching from text.
+ *
+ * @param text File contents
+ * @param format Format of the contents
+ * @param sizes Node counts for edge lists, which do not record them (default: largest index + 1)
+ * @throws {GraphFormatError} If the input is malformed or a node is matched twice
+ */
+export function parseMatching(
+  text: string,
+  format: MatchingFormat,
+  sizes: ParseGraphOptions = {}
+): Matching {
+  if (format === "json") {
+    return readMatchingJson(parseJsonDocument(text));
+  }
+
+  const { rows } = readEdgeRows(text, 2);
+  return buildMatching(
+    sizes.leftSize ?? rows.reduce((max, row) => Math.max(max, row.u + 1), 0),
+    sizes.rightSize ?? rows.reduce((max, row) => Math.max(max, row.v + 1), 0),
+    rows
+  );
+}
+
+/**
+ * Serializes a matching as its list of matched pairs.
+ */
+export function serializeMatching(matching: Matching, format: MatchingFormat): string {
+  const pairs = matching.matchLeft.flatMap((v, u) => (v === -1 ? [] : [[u, v]]));
+
+  if (format === "json") {
+    return `${JSON.stringify({
+      format: "matching",
+      version: JSON_FORMAT_VERSION,
+      leftSize: matching.matchLeft.length,
+      rightSize: matching.matchRight.length,
+      pairs
+    })}\n`;
+  }
+
+  const separator = format === "csv" ? "," : "\t";
+  return [["left", "right"], ...pairs].map(row => row.join(separator)).join("\n") + "\n";
+}
+
+/**
+ * Guesses the format of a graph file from its extension, or else its contents.
+ */
+export function detectGraphFormat(text: string, fileName?: string): GraphFormat {
+  const extension = fileName?.match(/\.([^./\\]+)$/)?.[1].toLowerCase();
+  switch (extension) {
+    case "json":
+      return "json";
+    case "mtx":
+    case "mm":
+      return "matrix-market";
+    case "asn":
+    case "dimacs":
+      return "dimacs";
+    case "csv":
+      return "csv";
+    case "tsv":
+      return "tsv";
+  }
+
+  const start = text.trimStart();
+  const firstLine = start.slice(0, start.search(/\r?\n|$/));
+  if (start.startsWith("{")) {
+    return "json";
+  }
+  if (/^%%MatrixMarket/i.test(start)) {
+    return "matrix-market";
+  }
+  if (/^[cp](\s|$)/.test(firstLine)) {
+    return "dimacs";
+  }
+  return firstLine.includes(",") ? "csv" : "tsv";
+}
+
+interface Token {
+  readonly text: string;
+  /** 1-based column */
+  readonly column: number;
+}
+
+/**
+ * Splits text into numbered lines of tokens, dropping blank lines and
+ * everything after a comment marker.
+ */
+function* tokenizeLines(
+  text: string,
+  comment: RegExp,
+  separators = /\S+/g
+): Generator<{ line: number; tokens: Token[] }> {
+  const lines = text.split(/\r?\n/);
+  for (let index = 0; index < lines.length; index++) {
+    const content = lines[index].replace(comment, "");
+    const tokens = [...content.matchAll(separators)].map(match => ({
+      text: match[0],
+      column: (match.index ?? 0) + 1
+    }));
+    if (tokens.length > 0) {
+      yield { line: index + 1, tokens };
+    }
+  }
+}
+
+function readInteger(token: Token, line: number, what: string, min: number, max = Infinity): number {
+  const value = Number(token.text);
+  if (!/^[+-]?\d+$/.test(token.text) || !Number.isSafeInteger(value)) {
+    throw new GraphFormatError(`${what} must be an integer, got "${token.text}"`, line, token.column);
+  }
+  if (value < min || value > max) {
+    const range = max === Infinity ? `at least ${min}` : `between ${min} and ${max}`;
+    throw new GraphFormatError(`${what} must be ${range}, got ${value}`, line, token.column);
+  }
+  return value;
+}
+
+function readWeight(token: Token, line: number): number {
+  const value = Number(token.text);
+  if (!Number.isFinite(value)) {
+    throw new GraphFormatError(`Weight must be a finite number, got "${token.text}"`, line, token.column);
+  }
+  return value;
+}
+
+function expectColumns(tokens: readonly Token[], line: number, counts: readonly number[], what: string): void {
+  if (!counts.includes(tokens.length)) {
+    const column = tokens[Math.min(tokens.length, counts[counts.length - 1]) - 1].column;
+    throw new GraphFormatError(
+      `Expected ${counts.join(" or ")} fields in ${what}, got ${tokens.length}`,
+      line,
+      column
+    );
+  }
+}
+
+function buildGraph(
+  leftSize: number,
+  rightSize: number,
+  edges: readonly [number, number, number][],
+  weighted: boolean
+): BipartiteGraph | WeightedBipartiteGraph {
+  // Edges were range checked while parsing, with their locations
+  return weighted
+    ? createWeightedBipartiteGraph(leftSize, rightSize, edges, { skipInvalidEdges: false })
+    : createBipartiteGraph(leftSize, rightSize, edges.map(([u, v]) => [u, v]), { skipInvalidEdges: false });
+}
+
+function parseDimacs(text: string): WeightedBipartiteGraph {
+  let nodeCount = -1;
+  let arcCount = 0;
+  let problemLine = 0;
+  const isLeft: boolean[] = [];
+  const arcs: { line: number; tokens: Token[]; source: number; target: number; cost: number }[] = [];
+
+  for (const { line, tokens } of tokenizeLines(text, /^c(\s.*)?$/)) {
+    const [kind] = tokens;
+
+    if (kind.text === "p") {
+      if (problemLine !== 0) {
+        throw new GraphFormatError("Duplicate problem line", line, kind.column);
+      }
+      expectColumns(tokens, line, [4], "problem line");
+      if (tokens[1].text !== "asn") {
+        throw new GraphFormatError(
+          `Expected an assignment problem ("asn"), got "${tokens[1].text}"`,
+          line,
+          tokens[1].column
+        );
+      }
+      nodeCount = readInteger(tokens[2], line, "Node count", 0);
+      arcCount = readInteger(tokens[3], line, "Arc count", 0);
+      problemLine = line;
+      continue;
+    }
+
+    if (problemLine === 0) {
+      throw new GraphFormatError(`Expected problem line "p asn", got "${kind.text}"`, line, kind.column);
+    }
+
+    if (kind.text === "n") {
+      expectColumns(tokens, line, [2], "node line");
+      const id = readInteger(tokens[1], line, "Node ID", 1, nodeCount);
+      if (isLeft[id]) {
+        throw new GraphFormatError(`Duplicate node ${id}`, line, tokens[1].column);
+      }
+      isLeft[id] = true;
+    } else if (kind.text === "a") {
+      expectColumns(tokens, line, [4], "arc line");
+      arcs.push({
+        line,
+        tokens,
+        source: readInteger(tokens[1], line, "Arc source", 1, nodeCount),
+        target: readInteger(tokens[2], line, "Arc target", 1, nodeCount),
+        cost: readWeight(tokens[3], line)
+      });
+    } else {
+      throw new GraphFormatError(`Unknown line type "${kind.text}"`, line, kind.column);
+    }
+  }
+
+  if (problemLine === 0) {
+    throw new GraphFormatError('Missing problem line "p asn"');
+  }
+  if (arcs.length !== arcCount) {
+    throw new GraphFormatError(`Problem line declares ${arcCount} arcs, found ${arcs.length}`, problemLine, 1);
+  }
+
+  // Left nodes are those listed on "n" lines, right nodes the rest, both in ID order
+  const indices = new Int32Array(nodeCount + 1);
+  let leftSize = 0;
+  let rightSize = 0;
+  for (let id = 1; id <= nodeCount; id++) {
+    indices[id] = isLeft[id] ? leftSize++ : rightSize++;
+  }
+
+  const edges = arcs.map(({ line, tokens, source, target, cost }): [number, number, number] => {
+    if (!isLeft[source]) {
+      throw new GraphFormatError(`Arc source ${source} is not a left node`, line, tokens[1].column);
+    }
+    if (isLeft[target]) {
+      throw new GraphFormatError(`Arc target ${target} is a left node`, line, tokens[2].column);
+    }
+    return [indices[source], indices[target], cost];
+  });
+
+  return createWeightedBipartiteGraph(leftSize, rightSize, edges, { skipInvalidEdges: false });
+}
+
+function parseMatrixMarket(text: string): BipartiteGraph | WeightedBipartiteGraph {
+  const headerLine = text.slice(0, text.search(/\n|$/));
+  const headerTokens = [...headerLine.matchAll(/\S+/g)].map(match => ({
+    text: match[0],
+    column: (match.index ?? 0) + 1
+  }));
+  const header = headerTokens.map(token => token.text.toLowerCase());
+  if (header[0] !== "%%matrixmarket") {
+    throw new GraphFormatError('Expected header "%%MatrixMarket matrix coordinate ..."', 1, 1);
+  }
+  expectColumns(headerTokens, 1, [5], "header");
+  const expected: [number, string[]][] = [
+    [1, ["matrix"]],
+    [2, ["coordinate"]],
+    [3, ["pattern", "real", "integer"]],
+    [4, ["general", "symmetric"]]
+  ];
+  for (const [index, allowed] of expected) {
+    if (!allowed.includes(header[index])) {
+      throw new GraphFormatError(
+        `Unsupported ${["object", "format", "field", "symmetry"][index - 1]} "${headerTokens[index].text}", ` +
+        `expected ${allowed.map(value => `"${value}"`).join(" or ")}`,
+        1,
+        headerTokens[index].column
+      );
+    }
+  }
+  const weighted = header[3] !== "pattern";
+  const symmetric = header[4] === "symmetric";
+
+  let rows = -1;
+  let columns = -1;
+  let entryCount = 0;
+  let sizeLine = 0;
+  const edges: [number, number, number][] = [];
+
+  for (const { line, tokens } of tokenizeLines(text, /%.*/)) {
+    if (sizeLine === 0) {
+      expectColumns(tokens, line, [3], "size line");
+      rows = readInteger(tokens[0], line, "Row count", 0);
+      columns = readInteger(tokens[1], line, "Column count", 0);
+      entryCount = readInteger(tokens[2], line, "Entry count", 0);
+      sizeLine = line;
+      if (symmetric && rows !== columns) {
+        throw new GraphFormatError(`Symmetric matrix must be square, got ${rows}x${columns}`, line, 1);
+      }
+      continue;
+    }
+
+    expectColumns(tokens, line, [weighted ? 3 : 2], "entry");
+    const row = readInteger(tokens[0], line, "Row", 1, rows) - 1;
+    const column = readInteger(tokens[1], line, "Column", 1, columns) - 1;
+    const weight = weighted ? readWeight(tokens[2], line) : 1;
+    edges.push([row, column, weight]);
+    if (symmetric && row !== column) {
+      edges.push([column, row, weight]);
+    }
+    if (symmetric ? edges.length > 2 * entryCount : edges.length > entryCount) {
+      throw new GraphFormatError(`Size line declares ${entryCount} entries, found more`, line, 1);
+    }
+  }
+
+  if (sizeLine === 0) {
+    throw new GraphFormatError("Missing size line");
+  }
+  const found = symmetric ? edges.filter(([u, v]) => u <= v).length : edges.length;
+  if (found !== entryCount) {
+    throw new GraphFormatError(`Size line declares ${entryCount} entries, found ${found}`, sizeLine, 1);
+  }
+
+  return buildGraph(rows, columns, edges, weighted);
+}
+
+interface EdgeRow {
+  readonly u: number;
+  readonly v: number;
+  readonly weight: number;
+  /** Location of the row in the input, if known */
+  readonly line?: number;
+  readonly leftColumn?: number;
+  readonly rightColumn?: number;
+  /** Path of the row in a JSON document, e.g. edges[3] */
+  readonly path?: string;
+}
+
+/**
+ * Reads rows of "left right [weight]" separated by commas, tabs or spaces,
+ * skipping a header row.
+ */
+function readEdgeRows(text: string, maxColumns: 2 | 3): { rows: EdgeRow[]; weighted: boolean } {
+  const rows: EdgeRow[] = [];
+  let columns = 0;
+  let first = true;
+
+  for (const { line, tokens } of tokenizeLines(text, /#.*/, /[^\s,]+/g)) {
+    if (first) {
+      first = false;
+      if (!/^[+-]?\d/.test(tokens[0].text)) {
+        continue; // Header row
+      }
+    }
+    if (columns === 0) {
+      expectColumns(tokens, line, maxColumns === 3 ? [2, 3] : [2], "edge");
+      columns = tokens.length;
+    } else {
+      expectColumns(tokens, line, [columns], "edge");
+    }
+    rows.push({
+      line,
+      leftColumn: tokens[0].column,
+      rightColumn: tokens[1].column,
+      u: readInteger(tokens[0], line, "Left node", 0),
+      v: readInteger(tokens[1], line, "Right node", 0),
+      weight: columns === 3 ? readWeight(tokens[2], line) : 1
+    });
+  }
+
+  return { rows, weighted: columns === 3 };
+}
+
+function parseEdgeList(text: string, options: ParseGraphOptions): BipartiteGraph | WeightedBipartiteGraph {
+  const { rows, weighted } = readEdgeRows(text, 3);
+  const leftSize = options.leftSize ?? rows.reduce((max, row) => Math.max(max, row.u + 1), 0);
+  const rightSize = options.rightSize ?? rows.reduce((max, row) => Math.max(max, row.v + 1), 0);
+
+  const edges = rows.map((row): [number, number, number] => {
+    checkRange(row, leftSize, rightSize);
+    return [row.u, row.v, row.weight];
+  });
+  return buildGraph(leftSize, rightSize, edges, weighted);
+}
+
+function checkRange(row: EdgeRow, leftSize: number, rightSize: number): void {
+  if (row.u >= leftSize) {
+    throw rowError(row, `Left node ${row.u} is out of range [0, ${leftSize - 1}]`, row.leftColumn);
+  }
+  if (row.v >= rightSize) {
+    throw rowError(row, `Right node ${row.v} is out of range [0, ${rightSize - 1}]`, row.rightColumn);
+  }
+}
+
+function rowError(row: EdgeRow, message: string, column: number | undefined): GraphFormatError {
+  return new GraphFormatError(row.path === undefined ? message : `${row.path}: ${message}`, row.line, column);
+}
+
+function buildMatching(leftSize: number, rightSize: number, rows: readonly EdgeRow[]): Matching {
+  const matchLeft: number[] = new Array(leftSize).fill(-1);
+  const matchRight: number[] = new Array(rightSize).fill(-1);
+
+  for (const row of rows) {
+    checkRange(row, leftSize, rightSize);
+    if (matchLeft[row.u] !== -1) {
+      throw rowError(row, `Left node ${row.u} is matched twice`, row.leftColumn);
+    }
+    if (matchRight[row.v] !== -1) {
+      throw rowError(row, `Right node ${row.v} is matched twice`, row.rightColumn);
+    }
+    matchLeft[row.u] = row.v;
+    matchRight[row.v] = row.u;
+  }
+
+  return { matchLeft, matchRight, size: rows.length };
+}
+
+/**
+ * Parses JSON with the native parser. Syntax errors keep its message, and its
+ * position where the runtime reports one; schema errors name the JSON path.
+ */
+function parseJsonDocument(text: string): unknown {
+  try {
+    return JSON.parse(text);
+  } catch (error) {
+    if (!(error instanceof SyntaxError)) {
+      throw error;
+    }
+    const { line, column } = jsonErrorPosition(text, error.message);
+    throw new GraphFormatError(`Invalid JSON: ${error.message}`, line, column);
+  }
+}
+
+/**
+ * Reads the "line L column C" or "position N" that V8 adds to JSON syntax
+ * errors; other runtimes give no position.
+ */
+function jsonErrorPosition(text: string, message: string): { line?: number; column?: number } {
+  const lineColumn = /line (\d+) column (\d+)/.exec(message);
+  if (lineColumn !== null) {
+    return { line: Number(lineColumn[1]), column: Number(lineColumn[2]) };
+  }
+  const position = /position (\d+)/.exec(message);
+  if (position === null) {
+    return {};
+  }
+  const before = text.slice(0, Number(position[1]));
+  return { line: before.split("\n").length, column: before.length - before.lastIndexOf("\n") };
+}
+
+/**
+ * Checks the optional "format" and "version" fields of a JSON document and
+ * returns it as an object.
+ */
+function readJsonHeader(data: unknown, format: string): Record<string, unknown> {
+  if (typeof data !== "object" || data === null || Array.isArray(data)) {
+    throw new GraphFormatError(`Expected a JSON object`);
+  }
+  const document = data as Record<string, unknown>;
+  if (document.format !== undefined && document.format !== format) {
+    throw new GraphFormatError(`Expected "format": "${format}", got ${JSON.stringify(document.format)}`);
+  }
+  const version = document.version ?? JSON_FORMAT_VERSION;
+  if (version !== JSON_FORMAT_VERSION) {
+    throw new GraphFormatError(`Unsupported version ${JSON.stringify(version)}, expected ${JSON_FORMAT_VERSION}`);
+  }
+  return document;
+}
+
+function readJsonCount(document: Record<string, unknown>, key: string): number | undefined {
+  const value = document[key];
+  if (value === undefined) {
+    return undefined;
+  }
+  if (!Number.isSafeInteger(value) || (value as number) < 0) {
+    throw new GraphFormatError(`${key} must be a non-negative integer, got ${JSON.stringify(value)}`);
+  }
+  return value as number;
+}
+
+/**
+ * Reads an array of [u, v] (or [u, v, weight]) arrays as edge rows.
+ */
+function readJsonRows(
+  document: Record<string, unknown>,
+  key: string,
+  maxColumns: 2 | 3
+): { rows: EdgeRow[]; weighted: boolean } {
+  const list = document[key];
+  if (!Array.isArray(list)) {
+    throw new GraphFormatError(`${key} must be an array, got ${JSON.stringify(list)}`);
+  }
+
+  let columns = 0;
+  const rows = list.map((item: unknown, index): EdgeRow => {
+    const path = `${key}[${index}]`;
+    const counts = columns !== 0 ? [columns] : maxColumns === 3 ? [2, 3] : [2];
+    if (!Array.isArray(item) || !counts.includes(item.length)) {
+      throw new GraphFormatError(`${path} must be an array of ${counts.join(" or ")} numbers, got ${JSON.stringify(item)}`);
+    }
+    columns = item.length;
+
+    const [u, v, weight = 1] = item as unknown[];
+    [u, v].forEach((node, i) => {
+      if (!Number.isSafeInteger(node) || (node as number) < 0) {
+        throw new GraphFormatError(`${path}[${i}] must be a non-negative integer node, got ${JSON.stringify(node)}`);
+      }
+    });
+    if (!Number.isFinite(weight)) {
+      throw new GraphFormatError(`${path}[2] must be a finite weight, got ${JSON.stringify(weight)}`);
+    }
+
+    return { u: u as number, v: v as number, weight: weight as number, path };
+  });
+
+  return { rows, weighted: columns === 3 };
+}
+
+function readGraphJson(data: unknown): BipartiteGraph | WeightedBipartiteGraph {
+  const document = readJsonHeader(data, "bipartite-graph");
+  const { rows, weighted } = readJsonRows(document, "edges", 3);
+  const leftSize = readJsonCount(document, "leftSize") ?? rows.reduce((max, row) => Math.max(max, row.u + 1), 0);
+  const rightSize = readJsonCount(document, "rightSize") ?? rows.reduce((max, row) => Math.max(max, row.v + 1), 0);
+
+  for (const row of rows) {
+    checkRange(row, leftSize, rightSize);
+  }
+  return buildGraph(leftSize, rightSize, rows.map(row => [row.u, row.v, row.weight]), weighted);
+}
+
+function readMatchingJson(data: unknown): Matching {
+  const document = readJsonHeader(data, "matching");
+  const { rows } = readJsonRows(document, "pairs", 2);
+  const leftSize = readJsonCount(document, "leftSize") ?? rows.reduce((max, row) => Math.max(max, row.u + 1), 0);
+  const rightSize = readJsonCount(document, "rightSize") ?? rows.reduce((max, row) => Math.max(max, row.v + 1), 0);
+  return buildMatching(leftSize, rightSize, rows);
+}
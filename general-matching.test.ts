@@ -0,0 +1,176 @@
+import { describe, test, expect } from "bun:test";
+
+import {
+  createGeneralGraph,
+  detectBipartition,
+  GeneralGraph,
+  GeneralMatching,
+  GeneralMatchingSolver
+} from "./general-matching";
+import { BipartiteGraphError } from "./hopkroft-karp";
+import { createRandom } from "./test-helpers";
+
+function expectValidMatching(graph: GeneralGraph, matching: GeneralMatching | null): void {
+  expect(matching).not.toBeNull();
+  const { mate, size } = matching ?? { mate: [], size: 0 };
+  expect(mate.length).toBe(graph.size);
+  let pairs = 0;
+  mate.forEach((v, u) => {
+    if (v !== -1) {
+      expect(mate[v]).toBe(u);
+      expect(graph.edges[u]).toContain(v);
+      pairs++;
+    }
+  });
+  expect(pairs).toBe(size * 2);
+}
+
+// Exhaustive search over subsets of edges, for small graphs
+function bruteForceMaximum(size: number, edges: [number, number][]): number {
+  const used = new Array(size).fill(false);
+  const search = (from: number): number => {
+    let best = 0;
+    for (let i = from; i < edges.length; i++) {
+      const [u, v] = edges[i];
+      if (!used[u] && !used[v]) {
+        used[u] = used[v] = true;
+        best = Math.max(best, 1 + search(i + 1));
+        used[u] = used[v] = false;
+      }
+    }
+    return best;
+  };
+  return search(0);
+}
+
+describe("createGeneralGraph", () => {
+  test("lists every edge at both ends", () => {
+    expect(createGeneralGraph(3, [[0, 1], [2, 1]])).toEqual({ size: 3, edges: [[1], [0, 2], [1]] });
+  });
+
+  test("skips invalid edges and self-loops by default", () => {
+    expect(createGeneralGraph(2, [[0, 0], [0, 2], [1, 0]]).edges).toEqual([[1], [0]]);
+  });
+
+  test("throws on invalid input when asked to", () => {
+    expect(() => createGeneralGraph(-1, [])).toThrow(BipartiteGraphError);
+    expect(() => createGeneralGraph(1.5, [])).toThrow("size must be a non-negative integer, got 1.5");
+    expect(() => createGeneralGraph(NaN, [])).toThrow("size must be a non-negative integer, got NaN");
+    expect(() => createGeneralGraph(2, [[1, 1]], { skipInvalidEdges: false }))
+      .toThrow("Invalid edge [1, 1]: a vertex cannot be matched to itself");
+    expect(() => createGeneralGraph(2, [[0, 2]], { skipInvalidEdges: false }))
+      .toThrow("Invalid edge [0, 2]: indices must be within range [0, 1]");
+  });
+});
+
+describe("detectBipartition", () => {
+  test("two-colours bipartite graphs", () => {
+    expect(detectBipartition(createGeneralGraph(5, [[0, 1], [1, 2], [2, 3], [3, 0]]))).toEqual([0, 1, 0, 1, 0]);
+  });
+
+  test("returns null for odd cycles", () => {
+    expect(detectBipartition(createGeneralGraph(3, [[0, 1], [1, 2], [2, 0]]))).toBeNull();
+  });
+});
+
+describe("GeneralMatchingSolver", () => {
+  test("matches one pair of a triangle", () => {
+    const graph = createGeneralGraph(3, [[0, 1], [1, 2], [2, 0]]);
+    const solver = new GeneralMatchingSolver(graph);
+
+    const matching = solver.findMaximumMatching();
+
+    expect(matching.size).toBe(1);
+    expectValidMatching(graph, matching);
+    expect(solver.findPerfectMatching()).toBeNull();
+    expect(solver.algorithm).toBe("blossom");
+  });
+
+  test("augments through a blossom", () => {
+    // A 5-cycle 1-2-3-4-5 with pendants 0 on 1 and 6 on 4; the greedy start matches 0-1, 2-3, 4-5
+    // and the path from 6 must go around the blossom
+    const graph = createGeneralGraph(7, [[0, 1], [1, 2], [2, 3], [3, 4], [4, 5], [5, 1], [4, 6], [3, 6]]);
+    const matching = new GeneralMatchingSolver(graph).findMaximumMatching();
+
+    expect(matching.size).toBe(3);
+    expectValidMatching(graph, matching);
+  });
+
+  test("finds a perfect matching of the Petersen graph", () => {
+    const edges: [number, number][] = [];
+    for (let i = 0; i < 5; i++) {
+      edges.push([i, (i + 1) % 5], [i, i + 5], [i + 5, ((i + 2) % 5) + 5]);
+    }
+    const graph = createGeneralGraph(10, edges);
+
+    const matching = new GeneralMatchingSolver(graph).findPerfectMatching();
+
+    expectValidMatching(graph, matching);
+  });
+
+  test("routes bipartite graphs to HopcroftKarp", () => {
+    const graph = createGeneralGraph(6, [[0, 1], [1, 2], [2, 3], [3, 4], [4, 5], [5, 0]]);
+    const solver = new GeneralMatchingSolver(graph);
+
+    expect(solver.algorithm).toBeNull();
+    const matching = solver.findPerfectMatching();
+
+    expect(solver.algorithm).toBe("hopcroft-karp");
+    expect(matching?.size).toBe(3);
+    expectValidMatching(graph, matching);
+  });
+
+  test("can use the blossom algorithm on bipartite graphs", () => {
+    const graph = createGeneralGraph(4, [[0, 1], [1, 2], [2, 3]]);
+    const solver = new GeneralMatchingSolver(graph, { detectBipartite: false });
+
+    expect(solver.findMaximumMatching().size).toBe(2);
+    expect(solver.algorithm).toBe("blossom");
+  });
+
+  test("handles empty graphs and isolated vertices", () => {
+    expect(new GeneralMatchingSolver(createGeneralGraph(0, [])).findPerfectMatching()).toEqual({ mate: [], size: 0 });
+    expect(new GeneralMatchingSolver(createGeneralGraph(2, [])).findMaximumMatching()).toEqual({ mate: [-1, -1], size: 0 });
+  });
+
+  test("agrees with exhaustive search on random graphs", () => {
+    const random = createRandom(21);
+
+    for (let trial = 0; trial < 100; trial++) {
+      const size = 2 + random(9);
+      const edges: [number, number][] = [];
+      const edgeCount = random(size * 2);
+      for (let i = 0; i < edgeCount; i++) {
+        const u = random(size);
+        const v = random(size);
+        if (u !== v) {
+          edges.push([u, v]);
+        }
+      }
+      const graph = createGeneralGraph(size, edges);
+
+      for (const detectBipartite of [true, false]) {
+        const matching = new GeneralMatchingSolver(graph, { detectBipartite }).findMaximumMatching();
+        expect(matching.size).toBe(bruteForceMaximum(size, edges));
+        expectValidMatching(graph, matching);
+      }
+    }
+  });
+
+  test("solves larger odd-cycle graphs", () => {
+    // A ring of 501 triangles sharing corners has 1002 vertices and a perfect matching
+    const edges: [number, number][] = [];
+    const triangles = 501;
+    for (let t = 0; t < triangles; t++) {
+      const corner = 2 * t;
+      const next = 2 * ((t + 1) % triangles);
+      edges.push([corner, corner + 1], [corner + 1, next], [next, corner]);
+    }
+    const graph = createGeneralGraph(2 * triangles, edges);
+
+    const matching = new GeneralMatchingSolver(graph).findPerfectMatching();
+
+    expect(matching?.size).toBe(triangles);
+    expectValidMatching(graph, matching);
+  });
+});
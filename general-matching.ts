@@ -0,0 +1,232 @@
+/**
+ * Maximum matching in general (not necessarily bipartite) graphs, e.g.
+ * pairing peers for code review or assigning roommates.
+ *
+ * Odd cycles break the alternating-path search used on bipartite graphs, so
+ * non-bipartite graphs are solved with Edmonds' blossom algorithm, which
+ * contracts each odd cycle it meets into a single vertex. Bipartite inputs are
+ * detected and handed to HopcroftKarp, which is much faster.
+ */
+
+import { HopcroftKarp } from "./hopkroft-karp";
+import { Bipartition, findBipartition, GeneralGraph } from "./bipartition";
+
+export { createGeneralGraph } from "./bipartition";
+export type { GeneralGraph } from "./bipartition";
+
+export interface GeneralMatching {
+  /** mate[u] = v means u is matched to v and mate[v] = u (-1 if unmatched) */
+  readonly mate: readonly number[];
+  /** Total number of matched pairs */
+  readonly size: number;
+}
+
+export type GeneralMatchingAlgorithm = "hopcroft-karp" | "blossom";
+
+/**
+ * Options for creating a GeneralMatchingSolver.
+ */
+export interface GeneralMatchingOptions {
+  /** Whether to solve bipartite graphs with HopcroftKarp (default: true) */
+  detectBipartite?: boolean;
+}
+
+/**
+ * Two-colours a graph. Kept for callers that only need the sides; it wraps
+ * findBipartition from ./bipartition, which also returns the BipartiteGraph.
+ *
+ * @returns side[u] = 0 or 1 such that every edge joins different sides, or null if the graph has an odd cycle
+ */
+export function detectBipartition(graph: GeneralGraph): number[] | null {
+  const bipartition = findBipartition(graph);
+  return bipartition === null ? null : [...bipartition.side];
+}
+
+export class GeneralMatchingSolver {
+  private readonly graph: GeneralGraph;
+  private readonly detectBipartite: boolean;
+  private result: GeneralMatching | null = null;
+  private usedAlgorithm: GeneralMatchingAlgorithm | null = null;
+  private static readonly NIL = -1;
+
+  constructor(graph: GeneralGraph, options: GeneralMatchingOptions = {}) {
+    this.graph = graph;
+    this.detectBipartite = options.detectBipartite ?? true;
+  }
+
+  /**
+   * The algorithm that found the matching, or null before the first solve.
+   */
+  get algorithm(): GeneralMatchingAlgorithm | null {
+    return this.usedAlgorithm;
+  }
+
+  /**
+   * Finds a matching covering every vertex, or returns null if none exists.
+   */
+  findPerfectMatching(): GeneralMatching | null {
+    const matching = this.findMaximumMatching();
+    return matching.size * 2 === this.graph.size ? matching : null;
+  }
+
+  /**
+   * Finds a matching with the largest number of pairs. Repeated calls return the same matching.
+   */
+  findMaximumMatching(): GeneralMatching {
+    if (this.result === null) {
+      const bipartition = this.detectBipartite ? findBipartition(this.graph) : null;
+      this.usedAlgorithm = bipartition === null ? "blossom" : "hopcroft-karp";
+      this.result = bipartition === null ? this.blossom() : this.bipartite(bipartition);
+    }
+    return this.result;
+  }
+
+  /**
+   * Solves a bipartite graph with HopcroftKarp.
+   */
+  private bipartite({ graph, left, right }: Bipartition): GeneralMatching {
+    const matching = new HopcroftKarp(graph).findMaximumMatching();
+
+    const mate: number[] = new Array(this.graph.size).fill(GeneralMatchingSolver.NIL);
+    matching.matchLeft.forEach((v, u) => {
+      if (v !== GeneralMatchingSolver.NIL) {
+        mate[left[u]] = right[v];
+        mate[right[v]] = left[u];
+      }
+    });
+    return { mate, size: matching.size };
+  }
+
+  /**
+   * Edmonds' blossom algorithm: grows an alternating tree from each free
+   * vertex in turn, contracting odd cycles (blossoms) into their base as they
+   * close, until it reaches another free vertex. O(V³) in the worst case.
+   */
+  private blossom(): GeneralMatching {
+    const { size, edges } = this.graph;
+    const NIL = GeneralMatchingSolver.NIL;
+    const mate = new Int32Array(size).fill(NIL);
+    // parent[v] is the vertex that reached the odd vertex v in the current tree
+    const parent = new Int32Array(size);
+    // base[v] is the base of the outermost blossom containing v
+    const base = new Int32Array(size);
+    // Whether each vertex is an even (outer) vertex of the current tree
+    const even = new Uint8Array(size);
+    const inBlossom = new Uint8Array(size);
+    const onPath = new Uint8Array(size);
+    const queue = new Int32Array(size);
+    let head = 0;
+    let tail = 0;
+    let matched = 0;
+
+    // Greedy start: most pairs are found without any tree search
+    for (let u = 0; u < size; u++) {
+      if (mate[u] === NIL) {
+        for (const v of edges[u]) {
+          if (mate[v] === NIL && v !== u) {
+            mate[u] = v;
+            mate[v] = u;
+            matched++;
+            break;
+          }
+        }
+      }
+    }
+
+    // Lowest common ancestor of the bases of a and b in the alternating tree
+    const commonBase = (a: number, b: number): number => {
+      onPath.fill(0);
+      for (;;) {
+        a = base[a];
+        onPath[a] = 1;
+        if (mate[a] === NIL) {
+          break;
+        }
+        a = parent[mate[a]];
+      }
+      for (;;) {
+        b = base[b];
+        if (onPath[b]) {
+          return b;
+        }
+        b = parent[mate[b]];
+      }
+    };
+
+    // Marks the blossom from v down to its base b, pointing odd vertices back across the closing edge
+    const markPath = (v: number, b: number, child: number): void => {
+      while (base[v] !== b) {
+        inBlossom[base[v]] = 1;
+        inBlossom[base[mate[v]]] = 1;
+        parent[v] = child;
+        child = mate[v];
+        v = parent[mate[v]];
+      }
+    };
+
+    // Returns the free vertex at the end of an augmenting path from root, or NIL
+    const search = (root: number): number => {
+      parent.fill(NIL);
+      even.fill(0);
+      for (let v = 0; v < size; v++) {
+        base[v] = v;
+      }
+      even[root] = 1;
+      head = 0;
+      tail = 0;
+      queue[tail++] = root;
+
+      while (head < tail) {
+        const v = queue[head++];
+        for (const w of edges[v]) {
+          if (base[v] === base[w] || mate[v] === w) {
+            continue;
+          }
+          if (w === root || (mate[w] !== NIL && parent[mate[w]] !== NIL)) {
+            // w is even: the edge closes an odd cycle
+            const b = commonBase(v, w);
+            inBlossom.fill(0);
+            markPath(v, b, w);
+            markPath(w, b, v);
+            for (let x = 0; x < size; x++) {
+              if (inBlossom[base[x]]) {
+                base[x] = b;
+                if (!even[x]) {
+                  even[x] = 1;
+                  queue[tail++] = x;
+                }
+              }
+            }
+          } else if (parent[w] === NIL) {
+            parent[w] = v;
+            if (mate[w] === NIL) {
+              return w;
+            }
+            even[mate[w]] = 1;
+            queue[tail++] = mate[w];
+          }
+        }
+      }
+
+      return NIL;
+    };
+
+    for (let root = 0; root < size; root++) {
+      if (mate[root] !== NIL) {
+        continue;
+      }
+      // Flip the matching along the path from the free end back to root
+      for (let v = search(root); v !== NIL;) {
+        const previous = mate[parent[v]];
+        mate[v] = parent[v];
+        mate[parent[v]] = v;
+        v = previous;
+      }
+      if (mate[root] !== NIL) {
+        matched++;
+      }
+    }
+
+    return { mate: Array.from(mate), size: matched };
+  }
+}
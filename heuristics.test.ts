@@ -0,0 +1,130 @@
+import { describe, test, expect } from "bun:test";
+
+import { BipartiteGraphError, createBipartiteGraph, HopcroftKarp } from "./hopkroft-karp";
+import { createCsrBipartiteGraph } from "./csr-graph";
+import { heuristicMatching, INITIALIZATION_STRATEGIES } from "./heuristics";
+import { verifyMatching } from "./verify";
+import { createRandom, randomGraph } from "./test-helpers";
+
+describe("heuristicMatching", () => {
+  // A path 0-0-1-1-2: greedy takes [0, 0] and strands left node 1
+  const path = createBipartiteGraph(2, 2, [[0, 0], [0, 1], [1, 0]]);
+
+  test("greedy takes the first free neighbour", () => {
+    expect(heuristicMatching(path, "greedy")).toEqual({ matchLeft: [0, -1], matchRight: [0, -1], size: 1 });
+  });
+
+  test("min-degree matches low-degree vertices first", () => {
+    expect(heuristicMatching(path, "min-degree").size).toBe(2);
+  });
+
+  test("karp-sipser matches degree-one vertices first", () => {
+    expect(heuristicMatching(path)).toEqual({ matchLeft: [1, 0], matchRight: [1, 0], size: 2 });
+  });
+
+  test("none leaves the matching empty", () => {
+    expect(heuristicMatching(path, "none").size).toBe(0);
+  });
+
+  test("returns valid matchings on random graphs", () => {
+    const random = createRandom(11);
+
+    for (let trial = 0; trial < 50; trial++) {
+      const graph = randomGraph(random, 1 + random(20), 1 + random(20), random(60));
+      const maximum = new HopcroftKarp(graph).findMaximumMatching().size;
+
+      for (const strategy of INITIALIZATION_STRATEGIES) {
+        const matching = heuristicMatching(graph, strategy);
+
+        expect(verifyMatching(graph, matching).violations).toEqual([]);
+        expect(matching.size).toBeLessThanOrEqual(maximum);
+      }
+    }
+  });
+
+  test("karp-sipser is exact on forests", () => {
+    const random = createRandom(4);
+
+    for (let trial = 0; trial < 50; trial++) {
+      // Attaching each new node to one earlier node on the other side builds a tree
+      const n = 1 + random(30);
+      const edges: [number, number][] = [];
+      for (let i = 1; i < n; i++) {
+        if (random(2) === 0) {
+          edges.push([i, random(i)]);
+        } else {
+          edges.push([random(i + 1), i]);
+        }
+      }
+      const graph = createBipartiteGraph(n, n, edges);
+
+      expect(heuristicMatching(graph).size).toBe(new HopcroftKarp(graph).findMaximumMatching().size);
+    }
+  });
+
+  test("accepts CSR graphs", () => {
+    const graph = createCsrBipartiteGraph(2, 2, [0, 0, 1], [0, 1, 0]);
+
+    expect(heuristicMatching(graph).matchLeft).toEqual([1, 0]);
+  });
+});
+
+describe("HopcroftKarp initialization", () => {
+  test("runs the heuristic before the first phase", () => {
+    const graph = createBipartiteGraph(3, 3, [[0, 0], [0, 1], [1, 0], [2, 1], [2, 2]]);
+    const hk = new HopcroftKarp(graph, { initialization: "karp-sipser" });
+
+    expect(hk.initializationStats).toBeNull();
+    expect(hk.findMaximumMatching().size).toBe(3);
+    expect(hk.initializationStats).toEqual({ strategy: "karp-sipser", matched: 3, forced: 3 });
+  });
+
+  test("finds maximum matchings with every strategy", () => {
+    const random = createRandom(29);
+
+    for (let trial = 0; trial < 50; trial++) {
+      const graph = randomGraph(random, 1 + random(30), 1 + random(30), random(90));
+      const expected = new HopcroftKarp(graph).findMaximumMatching().size;
+
+      for (const initialization of INITIALIZATION_STRATEGIES) {
+        const hk = new HopcroftKarp(graph, { initialization });
+        const matching = hk.findMaximumMatching();
+
+        expect(matching.size).toBe(expected);
+        expect(verifyMatching(graph, matching).valid).toBe(true);
+        expect(hk.initializationStats?.matched ?? 0).toBeLessThanOrEqual(expected);
+      }
+    }
+  });
+
+  test("completes a seeded matching and runs again after reset", () => {
+    const graph = createBipartiteGraph(3, 3, [[0, 0], [1, 1], [2, 2]]);
+    const hk = new HopcroftKarp(graph, { initialMatching: { matchLeft: [0, -1, -1] }, initialization: "greedy" });
+
+    expect(hk.augment()).toBe(2);
+    expect(hk.initializationStats).toEqual({ strategy: "greedy", matched: 2, forced: 0 });
+
+    hk.reset();
+    expect(hk.augment()).toBe(3);
+    expect(hk.initializationStats?.matched).toBe(3);
+  });
+
+  test("matches most vertices of sparse random graphs up front", () => {
+    const random = createRandom(7);
+    const n = 20_000;
+    const graph = randomGraph(random, n, n, 3 * n);
+
+    const hk = new HopcroftKarp(graph, { initialization: "karp-sipser" });
+    const matching = hk.findMaximumMatching();
+
+    expect(hk.initializationStats?.matched).toBeGreaterThan(0.95 * matching.size);
+  });
+
+  test("rejects unknown strategies", () => {
+    const graph = createBipartiteGraph(1, 1, [[0, 0]]);
+    const initialization = "random" as unknown as "greedy";
+
+    expect(() => new HopcroftKarp(graph, { initialization })).toThrow(BipartiteGraphError);
+    expect(() => new HopcroftKarp(graph, { initialization })).toThrow('Unknown initialization strategy "random"');
+  });
+});
@@ -0,0 +1,363 @@
+/**
+ * Cheap heuristics for an initial matching. On sparse graphs they usually
+ * match most vertices in linear time, leaving few augmenting paths for the
+ * Hopcroft-Karp phases to find.
+ */
+
+import { BipartiteGraphError, Matching } from "./hopkroft-karp";
+import type { AnyBipartiteGraph } from "./csr-graph";
+
+/**
+ * - none: start from an empty (or seeded) matching
+ * - greedy: match each free left node to its first free neighbour
+ * - min-degree: visit left nodes by increasing degree, matching each to its free neighbour of least remaining degree
+ * - karp-sipser: match degree-one vertices first, which never shrinks the maximum, and greedy edges otherwise
+ */
+export type InitializationStrategy = "none" | "greedy" | "min-degree" | "karp-sipser";
+
+export const INITIALIZATION_STRATEGIES: readonly InitializationStrategy[] = [
+  "none",
+  "greedy",
+  "min-degree",
+  "karp-sipser"
+];
+
+export interface InitializationOptions {
+  /** Heuristic that fills in free vertices before the main algorithm runs (default: none) */
+  initialization?: InitializationStrategy;
+}
+
+export interface InitializationStats {
+  /** Heuristic that was run */
+  readonly strategy: InitializationStrategy;
+  /** Number of pairs the heuristic added */
+  readonly matched: number;
+  /** Pairs among them forced by a degree-one vertex, and so in some maximum matching (karp-sipser only) */
+  readonly forced: number;
+}
+
+/** Edge ranges in CSR form: node x is adjacent to targets[offsets[x]] .. targets[offsets[x + 1] - 1] */
+interface Adjacency {
+  readonly offsets: Int32Array;
+  readonly targets: Int32Array;
+}
+
+const NIL = -1;
+
+/**
+ * Checks that a strategy name, e.g. from a config file, is known.
+ *
+ * @throws {BipartiteGraphError} If it is not
+ */
+export function checkInitializationStrategy(strategy: string): asserts strategy is InitializationStrategy {
+  if (!(INITIALIZATION_STRATEGIES as readonly string[]).includes(strategy)) {
+    throw new BipartiteGraphError(
+      `Unknown initialization strategy "${strategy}": expected one of ${INITIALIZATION_STRATEGIES.join(", ")}`
+    );
+  }
+}
+
+/**
+ * Computes a matching with the given heuristic alone.
+ *
+ * @param graph Graph to match
+ * @param strategy Heuristic to run (default: karp-sipser)
+ * @returns A matching, which is usually but not always maximum
+ */
+export function heuristicMatching(
+  graph: AnyBipartiteGraph,
+  strategy: InitializationStrategy = "karp-sipser"
+): Matching {
+  const matchLeft = new Int32Array(graph.leftSize).fill(NIL);
+  const matchRight = new Int32Array(graph.rightSize).fill(NIL);
+
+  const { matched } = extendMatching(graph, strategy, matchLeft, matchRight);
+
+  return { matchLeft: Array.from(matchLeft), matchRight: Array.from(matchRight), size: matched };
+}
+
+/**
+ * Adds pairs between free vertices to a matching in place. Pairs already in
+ * the matching are kept, so this also completes a seeded matching.
+ *
+ * @param graph Graph the matching belongs to
+ * @param strategy Heuristic to run
+ * @param matchLeft Right partner of each left node, or -1; updated in place
+ * @param matchRight Left partner of each right node, or -1; updated in place
+ * @returns How many pairs were added
+ * @throws {BipartiteGraphError} If the strategy is unknown
+ */
+export function extendMatching(
+  graph: AnyBipartiteGraph,
+  strategy: InitializationStrategy,
+  matchLeft: Int32Array,
+  matchRight: Int32Array
+): InitializationStats {
+  switch (strategy) {
+    case "none":
+      return { strategy, matched: 0, forced: 0 };
+    case "greedy":
+      return { strategy, matched: greedy(graph, leftAdjacency(graph), matchLeft, matchRight), forced: 0 };
+    case "min-degree":
+      return { strategy, matched: minDegree(graph, leftAdjacency(graph), matchLeft, matchRight), forced: 0 };
+    case "karp-sipser":
+      return { strategy, ...karpSipser(graph, leftAdjacency(graph), matchLeft, matchRight) };
+    default:
+      checkInitializationStrategy(strategy);
+      return { strategy, matched: 0, forced: 0 };
+  }
+}
+
+function greedy(
+  graph: AnyBipartiteGraph,
+  { offsets, targets }: Adjacency,
+  matchLeft: Int32Array,
+  matchRight: Int32Array
+): number {
+  let matched = 0;
+
+  for (let u = 0; u < graph.leftSize; u++) {
+    if (matchLeft[u] !== NIL) {
+      continue;
+    }
+    for (let i = offsets[u]; i < offsets[u + 1]; i++) {
+      const v = targets[i];
+      if (matchRight[v] === NIL) {
+        matchLeft[u] = v;
+        matchRight[v] = u;
+        matched++;
+        break;
+      }
+    }
+  }
+
+  return matched;
+}
+
+function minDegree(
+  graph: AnyBipartiteGraph,
+  adjacency: Adjacency,
+  matchLeft: Int32Array,
+  matchRight: Int32Array
+): number {
+  const { leftSize } = graph;
+  const { offsets, targets } = adjacency;
+
+  // Remaining degree of each free right node: its edges to free left nodes
+  const degreeRight = new Int32Array(graph.rightSize);
+  for (let u = 0; u < leftSize; u++) {
+    if (matchLeft[u] === NIL) {
+      for (let i = offsets[u]; i < offsets[u + 1]; i++) {
+        degreeRight[targets[i]]++;
+      }
+    }
+  }
+
+  // Counting sort of the free left nodes by degree
+  const degreeLeft = (u: number): number => offsets[u + 1] - offsets[u];
+  const maxDegree = targets.length;
+  const start = new Int32Array(maxDegree + 2);
+  for (let u = 0; u < leftSize; u++) {
+    if (matchLeft[u] === NIL) {
+      start[degreeLeft(u) + 1]++;
+    }
+  }
+  for (let d = 0; d <= maxDegree; d++) {
+    start[d + 1] += start[d];
+  }
+  const order = new Int32Array(start[maxDegree + 1]);
+  for (let u = 0; u < leftSize; u++) {
+    if (matchLeft[u] === NIL) {
+      order[start[degreeLeft(u)]++] = u;
+    }
+  }
+
+  let matched = 0;
+  for (const u of order) {
+    let best = NIL;
+    for (let i = offsets[u]; i < offsets[u + 1]; i++) {
+      const v = targets[i];
+      if (matchRight[v] === NIL && (best === NIL || degreeRight[v] < degreeRight[best])) {
+        best = v;
+      }
+    }
+    // u is no longer free, so its neighbours lose an edge either way
+    for (let i = offsets[u]; i < offsets[u + 1]; i++) {
+      degreeRight[targets[i]]--;
+    }
+    if (best !== NIL) {
+      matchLeft[u] = best;
+      matchRight[best] = u;
+      matched++;
+    }
+  }
+
+  return matched;
+}
+
+/**
+ * Karp-Sipser: repeatedly match a vertex of degree one to its only neighbour,
+ * and when there is none, match an arbitrary edge. Degrees count edges between
+ * free vertices, with parallel edges counted separately.
+ */
+function karpSipser(
+  graph: AnyBipartiteGraph,
+  adjacency: Adjacency,
+  matchLeft: Int32Array,
+  matchRight: Int32Array
+): { matched: number; forced: number } {
+  const { leftSize, rightSize } = graph;
+  const { offsets, targets } = adjacency;
+  const { offsets: sourceOffsets, targets: sources } = reverseAdjacency(graph, adjacency);
+
+  const degreeLeft = new Int32Array(leftSize);
+  const degreeRight = new Int32Array(rightSize);
+  for (let u = 0; u < leftSize; u++) {
+    if (matchLeft[u] === NIL) {
+      for (let i = offsets[u]; i < offsets[u + 1]; i++) {
+        const v = targets[i];
+        if (matchRight[v] === NIL) {
+          degreeLeft[u]++;
+          degreeRight[v]++;
+        }
+      }
+    }
+  }
+
+  // Vertices whose degree is one, with right node v stored as leftSize + v.
+  // A degree passes through one at most once, so every vertex is queued at most once.
+  const queue = new Int32Array(leftSize + rightSize);
+  let head = 0;
+  let tail = 0;
+  for (let u = 0; u < leftSize; u++) {
+    if (matchLeft[u] === NIL && degreeLeft[u] === 1) {
+      queue[tail++] = u;
+    }
+  }
+  for (let v = 0; v < rightSize; v++) {
+    if (matchRight[v] === NIL && degreeRight[v] === 1) {
+      queue[tail++] = leftSize + v;
+    }
+  }
+
+  let matched = 0;
+  let forced = 0;
+  const match = (u: number, v: number): void => {
+    matchLeft[u] = v;
+    matchRight[v] = u;
+    matched++;
+    for (let i = offsets[u]; i < offsets[u + 1]; i++) {
+      const w = targets[i];
+      if (matchRight[w] === NIL && --degreeRight[w] === 1) {
+        queue[tail++] = leftSize + w;
+      }
+    }
+    for (let i = sourceOffsets[v]; i < sourceOffsets[v + 1]; i++) {
+      const w = sources[i];
+      if (matchLeft[w] === NIL && --degreeLeft[w] === 1) {
+        queue[tail++] = w;
+      }
+    }
+  };
+
+  let next = 0;
+  for (;;) {
+    while (head < tail) {
+      const x = queue[head++];
+      if (x < leftSize) {
+        if (matchLeft[x] === NIL && degreeLeft[x] === 1) {
+          match(x, freeNeighbour(offsets, targets, matchRight, x));
+          forced++;
+        }
+      } else {
+        const v = x - leftSize;
+        if (matchRight[v] === NIL && degreeRight[v] === 1) {
+          match(freeNeighbour(sourceOffsets, sources, matchLeft, v), v);
+          forced++;
+        }
+      }
+    }
+
+    // No degree-one vertex left: match the first remaining edge. Degrees only
+    // decrease, so left nodes skipped here never become eligible again.
+    while (next < leftSize && (matchLeft[next] !== NIL || degreeLeft[next] === 0)) {
+      next++;
+    }
+    if (next === leftSize) {
+      break;
+    }
+    match(next, freeNeighbour(offsets, targets, matchRight, next));
+  }
+
+  return { matched, forced };
+}
+
+/**
+ * Returns the first neighbour of x that is still free, which must exist.
+ */
+function freeNeighbour(offsets: Int32Array, targets: Int32Array, matchOther: Int32Array, x: number): number {
+  for (let i = offsets[x]; i < offsets[x + 1]; i++) {
+    if (matchOther[targets[i]] === NIL) {
+      return targets[i];
+    }
+  }
+  return NIL;
+}
+
+/**
+ * Returns the edges of left nodes in CSR form, sharing the arrays of CSR
+ * graphs and dropping out-of-range right nodes from adjacency lists.
+ */
+function leftAdjacency(graph: AnyBipartiteGraph): Adjacency {
+  if ("offsets" in graph) {
+    return graph;
+  }
+
+  const { leftSize, rightSize, edges } = graph;
+  const isValid = (v: number): boolean => v >= 0 && v < rightSize;
+  const offsets = new Int32Array(leftSize + 1);
+  for (let u = 0; u < leftSize; u++) {
+    let degree = 0;
+    for (const v of edges[u]) {
+      if (isValid(v)) {
+        degree++;
+      }
+    }
+    offsets[u + 1] = offsets[u] + degree;
+  }
+  const targets = new Int32Array(offsets[leftSize]);
+  for (let u = 0, i = 0; u < leftSize; u++) {
+    for (const v of edges[u]) {
+      if (isValid(v)) {
+        targets[i++] = v;
+      }
+    }
+  }
+
+  return { offsets, targets };
+}
+
+/**
+ * Returns the edges of right nodes in CSR form, with the left nodes of each
+ * in increasing order.
+ */
+function reverseAdjacency(graph: AnyBipartiteGraph, { offsets, targets }: Adjacency): Adjacency {
+  const { leftSize, rightSize } = graph;
+  const sourceOffsets = new Int32Array(rightSize + 1);
+  for (const v of targets) {
+    sourceOffsets[v + 1]++;
+  }
+  for (let v = 0; v < rightSize; v++) {
+    sourceOffsets[v + 1] += sourceOffsets[v];
+  }
+
+  const sources = new Int32Array(targets.length);
+  const next = sourceOffsets.slice(0, -1);
+  for (let u = 0; u < leftSize; u++) {
+    for (let i = offsets[u]; i < offsets[u + 1]; i++) {
+      sources[next[targets[i]]++] = u;
+    }
+  }
+
+  return { offsets: sourceOffsets, targets: sources };
+}
@@ -0,0 +1,113 @@
+#!/usr/bin/env bun
+
+/**
+ * Benchmarks for HopcroftKarp on large graphs.
+ *
+ * Run with: bun run bench
+ */
+
+import { HopcroftKarp, createBipartiteGraph } from './hopkroft-karp';
+import { AnyBipartiteGraph, createCsrBipartiteGraph, isCsrBipartiteGraph } from './csr-graph';
+import { createRandom, randomSparseGraph } from './test-helpers';
+
+interface BenchmarkInput {
+  graph: AnyBipartiteGraph;
+  initialMatching?: { matchLeft: number[] };
+}
+
+interface BenchmarkCase {
+  name: string;
+  build: () => BenchmarkInput;
+}
+
+const cases: BenchmarkCase[] = [
+  {
+    name: "random sparse, 500k + 500k nodes, 2M edges",
+    build: (): BenchmarkInput => {
+      const n = 500000;
+      return { graph: randomSparseGraph(createRandom(1), n, 4) };
+    }
+  },
+  {
+    name: "random sparse as CSR, 500k + 500k nodes, 2M edges",
+    build: (): BenchmarkInput => {
+      const n = 500000;
+      const random = createRandom(1);
+      const lefts = new Int32Array(4 * n);
+      const rights = new Int32Array(4 * n);
+      for (let i = 0; i < lefts.length; i++) {
+        lefts[i] = i >> 2;
+        rights[i] = random(n);
+      }
+      return { graph: createCsrBipartiteGraph(n, n, lefts, rights) };
+    }
+  },
+  {
+    name: "banded, 700k + 700k nodes, 2.1M edges",
+    build: (): BenchmarkInput => {
+      const n = 700000;
+      const edges: [number, number][] = [];
+      for (let u = 0; u < n; u++) {
+        edges.push([u, u], [u, (u + 1) % n], [u, (u + 2) % n]);
+      }
+      return { graph: createBipartiteGraph(n, n, edges) };
+    }
+  },
+  {
+    name: "dense, 1500 + 1500 nodes, 2.25M edges",
+    build: (): BenchmarkInput => {
+      const n = 1500;
+      const edges: [number, number][] = [];
+      for (let u = 0; u < n; u++) {
+        for (let v = 0; v < n; v++) {
+          edges.push([u, v]);
+        }
+      }
+      return { graph: createBipartiteGraph(n, n, edges) };
+    }
+  },
+  {
+    name: "long path, 1M + 1M nodes, one augmenting path of 2M edges",
+    build: (): BenchmarkInput => {
+      const n = 1000000;
+      const edges: [number, number][] = [];
+      for (let u = 0; u < n; u++) {
+        edges.push([u, u]);
+        if (u + 1 < n) {
+          edges.push([u, u + 1]);
+        }
+      }
+      const matchLeft = Array.from({ length: n }, (_, u) => (u + 1 < n ? u + 1 : -1));
+      return { graph: createBipartiteGraph(n, n, edges), initialMatching: { matchLeft } };
+    }
+  }
+];
+
+console.log("HopcroftKarp benchmarks");
+console.log("=======================");
+
+for (const { name, build } of cases) {
+  const buildStart = globalThis.performance.now();
+  const { graph, initialMatching } = build();
+  const buildTime = globalThis.performance.now() - buildStart;
+
+  const edgeCount = isCsrBipartiteGraph(graph)
+    ? graph.targets.length
+    : graph.edges.reduce((total, adjacent) => total + adjacent.length, 0);
+  console.log(`\n${name}`);
+  console.log(`  edges:         ${edgeCount}`);
+  console.log(`  build:         ${buildTime.toFixed(1)} ms`);
+
+  for (const initialization of ["none", "karp-sipser"] as const) {
+    const solveStart = globalThis.performance.now();
+    const hk = new HopcroftKarp(graph, { initialMatching, initialization });
+    const matching = hk.findMaximumMatching();
+    const solveTime = globalThis.performance.now() - solveStart;
+
+    const upFront = hk.initializationStats ? `, ${hk.initializationStats.matched} up front` : "";
+    console.log(
+      `  ${`solve, ${initialization}:`.padEnd(22)} ${solveTime.toFixed(1)} ms, size ${matching.size}` +
+        ` (${hk.stats.phases} phase${hk.stats.phases === 1 ? "" : "s"}${upFront})`
+    );
+  }
+}
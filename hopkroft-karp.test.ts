@@ -6,8 +6,13 @@ import {
   Matching, 
   HopcroftKarp, 
   createBipartiteGraph, 
-  BipartiteGraphError 
+  createWeightedBipartiteGraph,
+  validateBipartiteGraph,
+  BipartiteGraphError,
+  GraphIssue,
+  HopcroftKarpPhase
 } from "./hopkroft-karp";
+import { createRandom, randomSparseGraph } from "./test-helpers";
 
 describe("HopcroftKarp", () => {
   describe("createBipartiteGraph", () => {
@@ -207,6 +212,26 @@ describe("HopcroftKarp", () => {
       expect(end - start).toBeLessThan(100); // Should complete in < 100ms
     });
 
+    test("handles very long augmenting paths without recursion", () => {
+      // Path graph seeded so that the only augmenting path visits every node
+      const n = 200000;
+      const edges: [number, number][] = [];
+      for (let i = 0; i < n; i++) {
+        edges.push([i, i]);
+        if (i + 1 < n) {
+          edges.push([i, i + 1]);
+        }
+      }
+      const matchLeft = Array.from({ length: n }, (_, i) => (i + 1 < n ? i + 1 : -1));
+      
+      const graph = createBipartiteGraph(n, n, edges);
+      const hk = new HopcroftKarp(graph, { initialMatching: { matchLeft } });
+      
+      expect(hk.augment()).toBe(1);
+      expect(hk.getMatching().matchLeft[n - 1]).toBe(n - 1);
+      expect(hk.getMatching().matchLeft[0]).toBe(0);
+    });
+
     test("matching uniqueness - different runs produce valid matchings", () => {
       const graph = createBipartiteGraph(4, 4, [
         [0, 0], [0, 1],
@@ -371,6 +396,86 @@ describe("HopcroftKarp", () => {
         createBipartiteGraph(-1, -1, [[0, 0]], { validateInput: false });
       }).not.toThrow();
     });
+
+    test("throws error for non-integer partition sizes", () => {
+      for (const size of [1.5, NaN, Infinity]) {
+        expect(() => {
+          createBipartiteGraph(size, 2, []);
+        }).toThrow(`leftSize must be a non-negative integer, got ${size}`);
+      }
+    });
+    
+    test("skips edges with non-integer indices", () => {
+      const graph = createBipartiteGraph(2, 2, [[0, 0], [0.5, 1], [1, NaN], [Infinity, 0]]);
+      
+      expect(graph.edges).toEqual([[0], []]);
+    });
+    
+    test("reports every invalid edge in the error", () => {
+      const edges: [number, number][] = [[0, 0], [0, 5], [1.5, 0], [1, 1]];
+      let error: unknown;
+      try {
+        createBipartiteGraph(2, 2, edges, { skipInvalidEdges: false });
+      } catch (e) {
+        error = e;
+      }
+      
+      expect(error).toBeInstanceOf(BipartiteGraphError);
+      expect((error as BipartiteGraphError).message).toBe(
+        "Invalid edge [0, 5]: indices must be within ranges [0, 1] and [0, 1] (and 1 more)"
+      );
+      expect((error as BipartiteGraphError).issues).toEqual([
+        {
+          kind: "out-of-range",
+          message: "Invalid edge [0, 5]: indices must be within ranges [0, 1] and [0, 1]",
+          edgeIndex: 1,
+          edge: [0, 5]
+        },
+        { kind: "non-integer", message: "Invalid edge [1.5, 0]: indices must be integers", edgeIndex: 2, edge: [1.5, 0] }
+      ]);
+    });
+    
+    test("calls onInvalidEdge for each skipped edge", () => {
+      const skipped: GraphIssue[] = [];
+      createWeightedBipartiteGraph(2, 2, [[0, 0, 1], [0, -1, 1], [1, 1, NaN]], {
+        onInvalidEdge: issue => skipped.push(issue)
+      });
+      
+      expect(skipped.map(({ kind, edgeIndex }) => [kind, edgeIndex])).toEqual([["out-of-range", 1], ["invalid-weight", 2]]);
+    });
+    
+    test("removes duplicate edges when asked to", () => {
+      const skipped: GraphIssue[] = [];
+      const graph = createBipartiteGraph(2, 2, [[0, 0], [0, 1], [0, 0], [1, 1], [0, 0]], {
+        deduplicate: true,
+        skipInvalidEdges: false,
+        onInvalidEdge: issue => skipped.push(issue)
+      });
+      
+      expect(graph.edges).toEqual([[0, 1], [1]]);
+      expect(skipped.map(({ message }) => message)).toEqual([
+        "Duplicate edge [0, 0]: first given at index 0",
+        "Duplicate edge [0, 0]: first given at index 0"
+      ]);
+    });
+    
+    test("validateBipartiteGraph reports all issues without building the graph", () => {
+      const report = validateBipartiteGraph(2, 3, [[0, 0], [2, 0], [0, 0], [1, 2, Infinity], [1, NaN]]);
+      
+      expect(report.valid).toBe(false);
+      expect(report.issues.map(({ kind, edgeIndex }) => [kind, edgeIndex])).toEqual([
+        ["out-of-range", 1],
+        ["duplicate", 2],
+        ["invalid-weight", 3],
+        ["non-integer", 4]
+      ]);
+      
+      expect(validateBipartiteGraph(2, 2, [[0, 1], [1, 0]])).toEqual({ valid: true, issues: [] });
+      expect(validateBipartiteGraph(-1, 0.5, [[0, 0]]).issues.map(({ message }) => message)).toEqual([
+        "leftSize must be non-negative, got -1",
+        "rightSize must be a non-negative integer, got 0.5"
+      ]);
+    });
   });
   
   describe("unbalanced bipartite graphs", () => {
@@ -437,6 +542,114 @@ describe("HopcroftKarp", () => {
     });
   });
   
+  describe("stateful solving", () => {
+    const edges: [number, number][] = [
+      [0, 0], [0, 1],
+      [1, 1], [1, 2],
+      [2, 0], [2, 2]
+    ];
+
+    test("repeated calls report the size of the current matching", () => {
+      const graph = createBipartiteGraph(3, 3, edges);
+      const hk = new HopcroftKarp(graph);
+      
+      const first = hk.findMaximumMatching();
+      const second = hk.findMaximumMatching();
+      
+      expect(first.size).toBe(3);
+      expect(second).toEqual(first);
+      expect(hk.size).toBe(3);
+      
+      // findPerfectMatching after findMaximumMatching must not return a spurious null
+      expect(hk.findPerfectMatching()).toEqual(first);
+    });
+
+    test("starts from an initial matching", () => {
+      const graph = createBipartiteGraph(3, 3, edges);
+      const hk = new HopcroftKarp(graph, { initialMatching: { matchLeft: [1, 2, -1] } });
+      
+      expect(hk.size).toBe(2);
+      expect(hk.getMatching().matchRight).toEqual([-1, 0, 1]);
+      
+      // Only one augmentation is needed to complete the seeded matching
+      expect(hk.augment()).toBe(1);
+      expect(hk.size).toBe(3);
+      expect(hk.getMatching().matchLeft).toEqual([1, 2, 0]);
+      expect(hk.augment()).toBe(0);
+    });
+
+    test("accepts a previous Matching as the initial matching", () => {
+      const graph = createBipartiteGraph(3, 3, edges);
+      const previous = new HopcroftKarp(graph).findMaximumMatching();
+      
+      const hk = new HopcroftKarp(graph, { initialMatching: previous });
+      
+      expect(hk.size).toBe(3);
+      expect(hk.augment()).toBe(0);
+      expect(hk.findMaximumMatching()).toEqual(previous);
+    });
+
+    test("throws error for invalid initial pairs", () => {
+      const graph = createBipartiteGraph(3, 3, edges);
+      
+      // [0, 2] is not an edge
+      expect(() => {
+        new HopcroftKarp(graph, { initialMatching: { matchLeft: [2, -1, -1] } });
+      }).toThrow(BipartiteGraphError);
+      
+      // Right node 1 used twice
+      expect(() => {
+        new HopcroftKarp(graph, { initialMatching: { matchLeft: [1, 1, -1] } });
+      }).toThrow(BipartiteGraphError);
+      
+      // Out of range right node
+      expect(() => {
+        new HopcroftKarp(graph, { initialMatching: { matchLeft: [5, -1, -1] } });
+      }).toThrow(BipartiteGraphError);
+      
+      // Wrong number of left nodes
+      expect(() => {
+        new HopcroftKarp(graph, { initialMatching: { matchLeft: [0] } });
+      }).toThrow(BipartiteGraphError);
+    });
+
+    test("skips invalid initial pairs when skipInvalidPairs is true", () => {
+      const graph = createBipartiteGraph(3, 3, edges);
+      const hk = new HopcroftKarp(graph, {
+        initialMatching: { matchLeft: [2, 1, 1] },
+        skipInvalidPairs: true
+      });
+      
+      // Only [1, 1] is valid: [0, 2] is not an edge and [2, 1] reuses right node 1
+      expect(hk.size).toBe(1);
+      expect(hk.getMatching().matchLeft).toEqual([-1, 1, -1]);
+      expect(hk.findMaximumMatching().size).toBe(3);
+    });
+
+    test("reset discards the current matching", () => {
+      const graph = createBipartiteGraph(3, 3, edges);
+      const hk = new HopcroftKarp(graph);
+      
+      hk.findMaximumMatching();
+      hk.reset();
+      
+      expect(hk.size).toBe(0);
+      expect(hk.getMatching().matchLeft).toEqual([-1, -1, -1]);
+      expect(hk.augment()).toBe(3);
+    });
+
+    test("seed replaces the current matching", () => {
+      const graph = createBipartiteGraph(3, 3, edges);
+      const hk = new HopcroftKarp(graph);
+      
+      hk.findMaximumMatching();
+      
+      expect(hk.seed({ matchLeft: [0, -1, -1] })).toBe(1);
+      expect(hk.getMatching().matchRight).toEqual([0, -1, -1]);
+      expect(hk.augment()).toBe(2);
+    });
+  });
+  
   describe("known specific matchings", () => {
     test("verifies exact matching edges for a specific graph", () => {
       const graph = createBipartiteGraph(3, 3, [
@@ -592,6 +805,120 @@ describe("HopcroftKarp", () => {
       }
     });
   });
+
+  describe("instrumentation", () => {
+    // A path whose edge order makes the first phase leave one augmenting path through every node
+    const pathGraph = createBipartiteGraph(3, 3, [
+      [0, 1], [0, 0],
+      [1, 2], [1, 1],
+      [2, 2]
+    ]);
+
+    test("reports each phase", () => {
+      const phases: HopcroftKarpPhase[] = [];
+      const hk = new HopcroftKarp(pathGraph, { onPhase: (phase): void => { phases.push(phase); } });
+
+      hk.findMaximumMatching();
+
+      // Phase 1 finds the direct edges [0, 1] and [1, 2]; phase 2 finds 2-2-1-1-0-0
+      expect(phases.map(({ phase, depth, freeLeft, augmentations }) => ({ phase, depth, freeLeft, augmentations })))
+        .toEqual([
+          { phase: 1, depth: 0, freeLeft: 3, augmentations: 2 },
+          { phase: 2, depth: 2, freeLeft: 1, augmentations: 1 }
+        ]);
+      expect(phases.every(phase => phase.edgesScanned > 0 && phase.elapsedMs >= 0)).toBe(true);
+    });
+
+    test("totals the work of all phases", () => {
+      const hk = new HopcroftKarp(pathGraph);
+
+      expect(hk.stats).toEqual({ phases: 0, augmentations: 0, edgesScanned: 0, elapsedMs: 0 });
+      hk.findMaximumMatching();
+
+      const stats = hk.stats;
+      expect(stats.phases).toBe(2);
+      expect(stats.augmentations).toBe(3);
+      // The final BFS scans edges without finding a path
+      expect(stats.edgesScanned).toBeGreaterThan(5);
+      expect(stats.elapsedMs).toBeGreaterThanOrEqual(0);
+
+      // Repeated calls do no further work; reset starts over
+      hk.findMaximumMatching();
+      expect(hk.stats).toEqual(stats);
+      hk.reset();
+      expect(hk.stats.phases).toBe(0);
+    });
+
+    test("needs few phases on large graphs", () => {
+      const random = createRandom(3);
+      const n = 20000;
+      const hk = new HopcroftKarp(randomSparseGraph(random, n, 3));
+
+      hk.findMaximumMatching();
+
+      expect(hk.stats.phases).toBeLessThanOrEqual(2 * Math.sqrt(2 * n));
+    });
+  });
+
+  describe("async solving", () => {
+    // Phase 1 matches left u to right u + 1, leaving one augmenting path through all nodes for phase 2
+    const n = 1000;
+    const edges: [number, number][] = [];
+    for (let u = 0; u < n; u++) {
+      edges.push([u, u + 1], [u, u]);
+    }
+    edges.push([n, n]);
+    const pathGraph = createBipartiteGraph(n + 1, n + 1, edges);
+
+    test("finds the same matching as the synchronous solver", async () => {
+      const result = await new HopcroftKarp(pathGraph).findMaximumMatchingAsync();
+
+      expect(result).toEqual({ ...new HopcroftKarp(pathGraph).findMaximumMatching(), partial: false });
+    });
+
+    test("yields to the event loop between phases", async () => {
+      const events: string[] = [];
+      const hk = new HopcroftKarp(pathGraph, { onPhase: ({ phase }): void => { events.push(`phase ${phase}`); } });
+      globalThis.setTimeout(() => events.push("timer"), 0);
+
+      await hk.findMaximumMatchingAsync();
+
+      expect(events[0]).toBe("timer");
+      expect(events).toContain("phase 2");
+    });
+
+    test("returns the matching so far when a budget runs out, and continues later", async () => {
+      const hk = new HopcroftKarp(pathGraph);
+
+      const partial = await hk.findMaximumMatchingAsync({ maxPhases: 1 });
+      expect(partial.partial).toBe(true);
+      expect(partial.size).toBe(n);
+
+      const none = await hk.findMaximumMatchingAsync({ timeBudgetMs: 0 });
+      expect(none).toEqual(partial);
+
+      const complete = await hk.findMaximumMatchingAsync();
+      expect(complete.partial).toBe(false);
+      expect(complete.size).toBe(n + 1);
+      expect(hk.stats.phases).toBe(2);
+    });
+
+    test("rejects when aborted and keeps the progress made", async () => {
+      const controller = new AbortController();
+      const hk = new HopcroftKarp(pathGraph, {
+        onPhase: ({ phase }): void => {
+          if (phase === 1) {
+            controller.abort(new Error("deadline"));
+          }
+        }
+      });
+
+      await expect(hk.findMaximumMatchingAsync({ signal: controller.signal })).rejects.toThrow("deadline");
+      expect(hk.size).toBe(n);
+      await expect(hk.findMaximumMatchingAsync({ signal: controller.signal })).rejects.toThrow("deadline");
+      expect(hk.findMaximumMatching().size).toBe(n + 1);
+    });
+  });
 });
 
 // Run with: bun test hopkroft-karp.test.ts
\ No newline at end of file
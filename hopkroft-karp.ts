@@ -3,6 +3,15 @@
  * Returns a perfect matching if one exists, otherwise returns null.
  */
 
+import type { AnyBipartiteGraph } from "./csr-graph";
+import {
+  checkInitializationStrategy,
+  extendMatching,
+  InitializationOptions,
+  InitializationStats,
+  InitializationStrategy
+} from "./heuristics";
+
 export interface BipartiteGraph {
   /** Number of nodes in the left partition */
   readonly leftSize: number;
@@ -12,6 +21,11 @@ export interface BipartiteGraph {
   readonly edges: readonly (readonly number[])[];
 }
 
+export interface WeightedBipartiteGraph extends BipartiteGraph {
+  /** Weight lists parallel to edges: weights[u][i] is the weight of the edge from u to edges[u][i] */
+  readonly weights: readonly (readonly number[])[];
+}
+
 export interface Matching {
   /** matchLeft[u] = v means left node u is matched to right node v (-1 if unmatched) */
   readonly matchLeft: readonly number[];
@@ -21,18 +35,303 @@ export interface Matching {
   readonly size: number;
 }
 
-export class HopcroftKarp {
-  private readonly graph: BipartiteGraph;
-  private readonly matchLeft: number[];
-  private readonly matchRight: number[];
-  private readonly dist: number[];
-  private static readonly NIL = -1;
+/**
+ * An algorithm computing maximum matchings of one graph; see ./solvers for
+ * the implementations and selecting them by name.
+ */
+export interface MatchingSolver {
+  /** Finds a maximum matching. Repeated calls return the same matching. */
+  findMaximumMatching(): Matching;
+  /** Finds a matching covering every node, or returns null if none exists. */
+  findPerfectMatching(): Matching | null;
+}
+
+/**
+ * What one phase of HopcroftKarp did: a BFS building the layered graph,
+ * then DFS augmentations along vertex-disjoint shortest paths.
+ */
+export interface HopcroftKarpPhase {
+  /** 1-based index of the phase since the solver was created or reset */
+  readonly phase: number;
+  /** Matched edges on each shortest augmenting path, which has 2 * depth + 1 edges */
+  readonly depth: number;
+  /** Free left nodes at the start of the phase */
+  readonly freeLeft: number;
+  /** Augmenting paths found, each growing the matching by one */
+  readonly augmentations: number;
+  /** Edges examined by the BFS and DFS of the phase */
+  readonly edgesScanned: number;
+  /** Duration of the phase in milliseconds */
+  readonly elapsedMs: number;
+}
+
+/**
+ * Totals over all phases since the solver was created or reset.
+ */
+export interface HopcroftKarpStats {
+  /** Phases that found augmenting paths; at most about 2√V */
+  readonly phases: number;
+  /** Augmenting paths found by the phases, excluding pairs from initialization */
+  readonly augmentations: number;
+  /** Edges examined, including by the final BFS that finds no path; O(E) per phase */
+  readonly edgesScanned: number;
+  /** Time spent in augment() in milliseconds, including the initialization heuristic */
+  readonly elapsedMs: number;
+}
+
+/**
+ * Limits for HopcroftKarp.findMaximumMatchingAsync.
+ */
+export interface AsyncSolveOptions {
+  /** Cancels the run, rejecting with signal.reason; the matching found so far is kept */
+  signal?: AbortSignal;
+  /** Milliseconds after which to stop and return the matching so far; checked between phases */
+  timeBudgetMs?: number;
+  /** Number of phases after which to stop and return the matching so far */
+  maxPhases?: number;
+}
+
+/**
+ * A matching that may not be maximum yet.
+ */
+export interface PartialMatching extends Matching {
+  /** Whether a budget ran out first; calling again continues from this matching */
+  readonly partial: boolean;
+}
+
+/**
+ * Options for creating a HopcroftKarp solver.
+ */
+export interface HopcroftKarpOptions extends InitializationOptions {
+  /** Partial matching to start from, e.g. the result of a previous run */
+  initialMatching?: Pick<Matching, "matchLeft">;
+  /** Whether to skip pairs of the initial matching that are not valid in the graph rather than throw errors */
+  skipInvalidPairs?: boolean;
+  /** Called after each phase that found augmenting paths, e.g. for logging or tracing */
+  onPhase?: (phase: HopcroftKarpPhase) => void;
+}
+
+export class HopcroftKarp implements MatchingSolver {
+  protected readonly graph: AnyBipartiteGraph;
+  // Edge storage of the graph: adjacency lists, or CSR offsets into one targets array
+  private readonly lists: readonly (readonly number[])[] | null;
+  private readonly offsets: Int32Array | null;
+  private readonly targets: Int32Array | null;
+  protected matchLeft: Int32Array;
+  protected matchRight: Int32Array;
+  protected matchedCount = 0;
+  private readonly initialization: InitializationStrategy;
+  /** Whether the heuristic still has to run on the current matching */
+  private initializationPending = false;
+  private lastInitializationStats: InitializationStats | null = null;
+  private readonly onPhase: ((phase: HopcroftKarpPhase) => void) | undefined;
+  private phaseCount = 0;
+  private augmentationCount = 0;
+  private edgesScanned = 0;
+  private elapsedMs = 0;
+  /** Whether the current matching is known to be maximum, so augment() can return immediately */
+  protected isMaximum = false;
+  // Scratch space for augment(), sized to the graph on each run
+  private dist = new Int32Array(0);
+  private queue = new Int32Array(0);
+  private stack = new Int32Array(0);
+  private cursor = new Int32Array(0);
+  protected static readonly NIL = -1;
+  private static readonly INF = 0x7fffffff;
 
-  constructor(graph: BipartiteGraph) {
+  constructor(graph: AnyBipartiteGraph, options: HopcroftKarpOptions = {}) {
     this.graph = graph;
-    this.matchLeft = new Array(graph.leftSize).fill(HopcroftKarp.NIL);
-    this.matchRight = new Array(graph.rightSize).fill(HopcroftKarp.NIL);
-    this.dist = new Array(graph.leftSize + 1).fill(0);
+    if ("offsets" in graph) {
+      this.lists = null;
+      this.offsets = graph.offsets;
+      this.targets = graph.targets;
+    } else {
+      this.lists = graph.edges;
+      this.offsets = null;
+      this.targets = null;
+    }
+    this.matchLeft = new Int32Array(graph.leftSize).fill(HopcroftKarp.NIL);
+    this.matchRight = new Int32Array(graph.rightSize).fill(HopcroftKarp.NIL);
+
+    this.initialization = options.initialization ?? "none";
+    checkInitializationStrategy(this.initialization);
+    this.initializationPending = this.initialization !== "none";
+    this.onPhase = options.onPhase;
+
+    if (options.initialMatching) {
+      this.seed(options.initialMatching, { skipInvalidPairs: options.skipInvalidPairs });
+    }
+  }
+
+  /**
+   * Number of matched pairs in the current state of the solver.
+   */
+  get size(): number {
+    return this.matchedCount;
+  }
+
+  /**
+   * What the initialization heuristic did on its last run, or null if it has
+   * not run yet (or the strategy is none).
+   */
+  get initializationStats(): InitializationStats | null {
+    return this.lastInitializationStats;
+  }
+
+  /**
+   * Work done by the phases since the solver was created or reset.
+   */
+  get stats(): HopcroftKarpStats {
+    return {
+      phases: this.phaseCount,
+      augmentations: this.augmentationCount,
+      edgesScanned: this.edgesScanned,
+      elapsedMs: this.elapsedMs
+    };
+  }
+
+  /**
+   * Returns a snapshot of the current matching without doing any work.
+   */
+  getMatching(): Matching {
+    return {
+      matchLeft: Array.from(this.matchLeft),
+      matchRight: Array.from(this.matchRight),
+      size: this.matchedCount
+    } as const;
+  }
+
+  /**
+   * Replaces the current state with the given partial matching.
+   *
+   * @param matching matchLeft[u] = v seeds left node u with right node v (-1 leaves it unmatched)
+   * @param options.skipInvalidPairs Whether to skip invalid pairs rather than throw errors
+   * @returns The number of pairs seeded
+   * @throws {BipartiteGraphError} If a pair is not an edge of the graph or reuses a right node
+   */
+  seed(
+    matching: Pick<Matching, "matchLeft">,
+    options: { skipInvalidPairs?: boolean } = {}
+  ): number {
+    const { skipInvalidPairs = false } = options;
+
+    if (matching.matchLeft.length !== this.graph.leftSize) {
+      throw new BipartiteGraphError(
+        `Initial matching has ${matching.matchLeft.length} left nodes, expected ${this.graph.leftSize}`
+      );
+    }
+
+    this.reset();
+
+    for (let u = 0; u < this.graph.leftSize; u++) {
+      const v = matching.matchLeft[u];
+      if (v === HopcroftKarp.NIL) {
+        continue;
+      }
+
+      let problem: string | null = null;
+      if (!Number.isInteger(v) || v < 0 || v >= this.graph.rightSize) {
+        problem = `right node must be within range [0, ${this.graph.rightSize-1}]`;
+      } else if (this.matchRight[v] !== HopcroftKarp.NIL) {
+        problem = `right node ${v} is already matched to left node ${this.matchRight[v]}`;
+      } else if (!this.hasEdge(u, v)) {
+        problem = "edge does not exist in the graph";
+      }
+
+      if (problem !== null) {
+        if (!skipInvalidPairs) {
+          this.reset();
+          throw new BipartiteGraphError(`Invalid initial pair [${u}, ${v}]: ${problem}`);
+        }
+        continue;
+      }
+
+      this.matchLeft[u] = v;
+      this.matchRight[v] = u;
+      this.matchedCount++;
+    }
+
+    return this.matchedCount;
+  }
+
+  /**
+   * Discards the current matching and stats so the next run starts from
+   * scratch, including the initialization heuristic.
+   */
+  reset(): void {
+    this.matchLeft.fill(HopcroftKarp.NIL);
+    this.matchRight.fill(HopcroftKarp.NIL);
+    this.matchedCount = 0;
+    this.isMaximum = false;
+    this.initializationPending = this.initialization !== "none";
+    this.phaseCount = 0;
+    this.augmentationCount = 0;
+    this.edgesScanned = 0;
+    this.elapsedMs = 0;
+  }
+
+  /**
+   * Grows the current matching until it is maximum, doing only the phases
+   * still needed since the last run, seed or reset.
+   *
+   * @returns The number of augmentations performed, counting each pair added by the initialization heuristic as one
+   */
+  augment(): number {
+    if (this.isMaximum) {
+      return 0;
+    }
+
+    const start = globalThis.performance.now();
+    const before = this.matchedCount;
+    this.initialize();
+
+    while (this.phase()) {
+      // Keep going until a BFS finds no augmenting path
+    }
+
+    this.isMaximum = true;
+    this.elapsedMs += globalThis.performance.now() - start;
+    return this.matchedCount - before;
+  }
+
+  /**
+   * Like findMaximumMatching, but yields to the event loop between phases and
+   * can stop early. A phase is never interrupted, so a time budget can be
+   * overrun by the duration of one phase. The solver must not be used
+   * otherwise until the returned promise settles.
+   *
+   * @param options Cancellation signal and budgets
+   * @returns The matching, flagged as partial if a budget ran out before it became maximum
+   * @throws The signal's reason if it is aborted
+   */
+  async findMaximumMatchingAsync(options: AsyncSolveOptions = {}): Promise<PartialMatching> {
+    const { signal, timeBudgetMs = Infinity, maxPhases = Infinity } = options;
+    const deadline = globalThis.performance.now() + timeBudgetMs;
+    signal?.throwIfAborted();
+
+    if (!this.isMaximum) {
+      let start = globalThis.performance.now();
+      this.initialize();
+      this.elapsedMs += globalThis.performance.now() - start;
+
+      for (let phases = 0; ; phases++) {
+        await new Promise<void>(resolve => globalThis.setTimeout(resolve, 0));
+        signal?.throwIfAborted();
+        if (phases >= maxPhases || globalThis.performance.now() >= deadline) {
+          return { ...this.getMatching(), partial: true };
+        }
+
+        start = globalThis.performance.now();
+        const found = this.phase();
+        this.elapsedMs += globalThis.performance.now() - start;
+        if (!found) {
+          this.isMaximum = true;
+          break;
+        }
+      }
+    }
+
+    return { ...this.getMatching(), partial: false };
   }
 
   /**
@@ -51,106 +350,274 @@ export class HopcroftKarp {
   }
 
   /**
-   * Finds maximum matching using Hopcroft-Karp algorithm.
+   * Finds maximum matching using Hopcroft-Karp algorithm, continuing from the
+   * current state. Repeated calls are cheap and return the same matching.
    */
   findMaximumMatching(): Matching {
-    let matchingSize = 0;
+    this.augment();
+    return this.getMatching();
+  }
 
-    while (this.bfs()) {
-      for (let u = 0; u < this.graph.leftSize; u++) {
-        if (this.matchLeft[u] === HopcroftKarp.NIL && this.dfs(u)) {
-          matchingSize++;
-        }
+  /**
+   * Returns the array holding the edges of left node u, which occupy
+   * indices firstEdge(u) up to endEdge(u) - 1 of it.
+   */
+  private adjacency(u: number): ArrayLike<number> {
+    return this.targets ?? (this.lists as readonly (readonly number[])[])[u];
+  }
+
+  private firstEdge(u: number): number {
+    return this.offsets ? this.offsets[u] : 0;
+  }
+
+  private endEdge(u: number): number {
+    return this.offsets ? this.offsets[u + 1] : this.adjacency(u).length;
+  }
+
+  private hasEdge(u: number, v: number): boolean {
+    const adjacent = this.adjacency(u);
+    for (let i = this.firstEdge(u); i < this.endEdge(u); i++) {
+      if (adjacent[i] === v) {
+        return true;
       }
     }
+    return false;
+  }
 
-    return {
-      matchLeft: [...this.matchLeft],
-      matchRight: [...this.matchRight],
-      size: matchingSize
-    } as const;
+  private allocateScratch(): void {
+    const { leftSize } = this.graph;
+    if (this.dist.length !== leftSize + 1) {
+      this.dist = new Int32Array(leftSize + 1);
+      this.queue = new Int32Array(leftSize);
+      this.stack = new Int32Array(leftSize);
+      this.cursor = new Int32Array(leftSize);
+    }
+  }
+
+  /**
+   * Runs the initialization heuristic if it is pending and sizes the scratch space.
+   */
+  private initialize(): void {
+    if (this.initializationPending) {
+      this.initializationPending = false;
+      this.lastInitializationStats = extendMatching(
+        this.graph,
+        this.initialization,
+        this.matchLeft,
+        this.matchRight
+      );
+      this.matchedCount += this.lastInitializationStats.matched;
+    }
+    this.allocateScratch();
+  }
+
+  /**
+   * Runs one phase: builds the level graph, then augments along a maximal set
+   * of vertex-disjoint shortest augmenting paths.
+   *
+   * @returns Whether any augmenting path was found
+   */
+  private phase(): boolean {
+    const start = globalThis.performance.now();
+    const scannedBefore = this.edgesScanned;
+    const freeLeft = this.graph.leftSize - this.matchedCount;
+
+    if (!this.bfs()) {
+      return false;
+    }
+    // dist[leftSize] counts left nodes on each shortest path, all but the first matched
+    const depth = this.dist[this.graph.leftSize] - 1;
+
+    for (let u = 0; u < this.graph.leftSize; u++) {
+      this.cursor[u] = this.firstEdge(u);
+    }
+    let augmentations = 0;
+    for (let u = 0; u < this.graph.leftSize; u++) {
+      if (this.matchLeft[u] === HopcroftKarp.NIL && this.dfs(u)) {
+        augmentations++;
+      }
+    }
+
+    this.matchedCount += augmentations;
+    this.augmentationCount += augmentations;
+    this.phaseCount++;
+    this.onPhase?.({
+      phase: this.phaseCount,
+      depth,
+      freeLeft,
+      augmentations,
+      edgesScanned: this.edgesScanned - scannedBefore,
+      elapsedMs: globalThis.performance.now() - start
+    });
+    return true;
   }
 
   /**
    * BFS to find augmenting paths and build level graph.
+   * dist[leftSize] is the length of the shortest augmenting path.
    */
   private bfs(): boolean {
-    const queue: number[] = [];
+    const { leftSize, rightSize } = this.graph;
+    const { matchLeft, matchRight, dist, queue } = this;
+    const NIL = HopcroftKarp.NIL;
+    const INF = HopcroftKarp.INF;
+    let head = 0;
+    let tail = 0;
+    let scanned = 0;
     
     // Initialize distances
-    for (let u = 0; u < this.graph.leftSize; u++) {
-      if (this.matchLeft[u] === HopcroftKarp.NIL) {
-        this.dist[u] = 0;
-        queue.push(u);
+    for (let u = 0; u < leftSize; u++) {
+      if (matchLeft[u] === NIL) {
+        dist[u] = 0;
+        queue[tail++] = u;
       } else {
-        this.dist[u] = Infinity;
+        dist[u] = INF;
       }
     }
-    this.dist[this.graph.leftSize] = Infinity;
+    dist[leftSize] = INF;
 
-    while (queue.length > 0) {
-      // We know queue is not empty from the while condition
-      const u = queue.shift() || 0;
+    while (head < tail) {
+      const u = queue[head++];
       
-      if (this.dist[u] < this.dist[this.graph.leftSize]) {
-        for (const v of this.graph.edges[u]) {
+      if (dist[u] < dist[leftSize]) {
+        const adjacent = this.adjacency(u);
+        const end = this.endEdge(u);
+        scanned += end - this.firstEdge(u);
+        for (let i = this.firstEdge(u); i < end; i++) {
+          const v = adjacent[i];
           // Skip invalid right nodes (should not happen with proper input validation)
-          if (v < 0 || v >= this.graph.rightSize) {
+          if (v < 0 || v >= rightSize) {
             continue;
           }
           
-          const matchedU = this.matchRight[v];
+          const matchedU = matchRight[v];
+          const next = matchedU === NIL ? leftSize : matchedU;
           
-          if (this.dist[matchedU === HopcroftKarp.NIL ? this.graph.leftSize : matchedU] === Infinity) {
-            this.dist[matchedU === HopcroftKarp.NIL ? this.graph.leftSize : matchedU] = this.dist[u] + 1;
+          if (dist[next] === INF) {
+            dist[next] = dist[u] + 1;
             
-            if (matchedU !== HopcroftKarp.NIL) {
-              queue.push(matchedU);
+            if (matchedU !== NIL) {
+              queue[tail++] = matchedU;
             }
           }
         }
       }
     }
 
-    return this.dist[this.graph.leftSize] !== Infinity;
+    this.edgesScanned += scanned;
+    return dist[leftSize] !== INF;
   }
 
   /**
-   * DFS to find augmenting path starting from node u.
+   * DFS to find augmenting path starting from free node root along the level
+   * graph. Uses an explicit stack of left nodes so path length is not limited
+   * by the call stack, and per-node edge cursors so each edge is scanned at
+   * most once per phase.
    */
-  private dfs(u: number): boolean {
-    if (u === this.graph.leftSize) {
-      return true;
-    }
+  private dfs(root: number): boolean {
+    const { leftSize, rightSize } = this.graph;
+    const { matchLeft, matchRight, dist, stack, cursor } = this;
+    const NIL = HopcroftKarp.NIL;
+    const INF = HopcroftKarp.INF;
+    let top = 0;
+    let scanned = 0;
+    stack[top++] = root;
 
-    for (const v of this.graph.edges[u]) {
-      // Skip invalid right nodes (should not happen with proper input validation)
-      if (v < 0 || v >= this.graph.rightSize) {
-        continue;
+    while (top > 0) {
+      const u = stack[top - 1];
+      const adjacent = this.adjacency(u);
+      const end = this.endEdge(u);
+      let descended = false;
+
+      for (; cursor[u] < end; cursor[u]++) {
+        scanned++;
+        const v = adjacent[cursor[u]];
+        // Skip invalid right nodes (should not happen with proper input validation)
+        if (v < 0 || v >= rightSize) {
+          continue;
+        }
+
+        const matchedU = matchRight[v];
+        const next = matchedU === NIL ? leftSize : matchedU;
+
+        if (dist[next] === dist[u] + 1) {
+          if (next === leftSize) {
+            // Reached a free right node: flip the path held on the stack
+            for (let i = top - 1; i >= 0; i--) {
+              const w = stack[i];
+              const matched = this.adjacency(w)[cursor[w]];
+              matchRight[matched] = w;
+              matchLeft[w] = matched;
+            }
+            this.edgesScanned += scanned;
+            return true;
+          }
+
+          stack[top++] = next;
+          descended = true;
+          break;
+        }
       }
-      
-      const matchedU = this.matchRight[v];
-      const next = matchedU === HopcroftKarp.NIL ? this.graph.leftSize : matchedU;
-      
-      if (this.dist[next] === this.dist[u] + 1) {
-        if (this.dfs(next)) {
-          this.matchRight[v] = u;
-          this.matchLeft[u] = v;
-          return true;
+
+      if (!descended) {
+        // Dead end: drop u from the level graph and move its parent past the edge to u
+        dist[u] = INF;
+        top--;
+        if (top > 0) {
+          cursor[stack[top - 1]]++;
         }
       }
     }
 
-    this.dist[u] = Infinity;
+    this.edgesScanned += scanned;
     return false;
   }
 }
 
+export type GraphIssueKind =
+  /** leftSize or rightSize is not a non-negative integer */
+  | "invalid-size"
+  /** An endpoint is NaN, infinite or fractional */
+  | "non-integer"
+  /** An endpoint is outside its partition */
+  | "out-of-range"
+  /** A weight is NaN or infinite */
+  | "invalid-weight"
+  /** The edge repeats an earlier one */
+  | "duplicate";
+
+/**
+ * A problem with the input of a graph.
+ */
+export interface GraphIssue {
+  readonly kind: GraphIssueKind;
+  /** Human-readable description */
+  readonly message: string;
+  /** Position of the edge in the input list, unless the issue is an invalid size */
+  readonly edgeIndex?: number;
+  /** The edge as given, unless the issue is an invalid size */
+  readonly edge?: readonly number[];
+}
+
+export interface GraphValidationReport {
+  /** Whether the input has no issues */
+  readonly valid: boolean;
+  /** All issues, in input order after any invalid sizes */
+  readonly issues: readonly GraphIssue[];
+}
+
 /**
  * Error thrown when invalid graph input is provided.
  */
 export class BipartiteGraphError extends Error {
-  constructor(message: string) {
+  /**
+   * @param message Description of the problem
+   * @param issues Every problem found in the input, when the error comes from validating a graph
+   */
+  constructor(
+    message: string,
+    readonly issues: readonly GraphIssue[] = []
+  ) {
     super(message);
     this.name = "BipartiteGraphError";
   }
@@ -166,6 +633,16 @@ export interface BipartiteGraphOptions {
   skipInvalidEdges?: boolean;
 }
 
+/**
+ * Options for creating a bipartite graph from an edge list.
+ */
+export interface EdgeListOptions extends BipartiteGraphOptions {
+  /** Whether to keep only the first of repeated edges (default: false) */
+  deduplicate?: boolean;
+  /** Called for each edge left out of the graph, i.e. each skipped invalid edge and each removed duplicate */
+  onInvalidEdge?: (issue: GraphIssue) => void;
+}
+
 /**
  * Helper function to create a bipartite graph from edge list.
  * 
@@ -174,24 +651,100 @@ export interface BipartiteGraphOptions {
  * @param edges Array of edges connecting left and right nodes
  * @param options Configuration options
  * @returns A BipartiteGraph object
- * @throws {BipartiteGraphError} If input validation fails and options.skipInvalidEdges is false
+ * @throws {BipartiteGraphError} If a size is invalid, or input validation fails and options.skipInvalidEdges is
+ *   false; its issues list every invalid edge
  */
 export function createBipartiteGraph(
   leftSize: number, 
   rightSize: number, 
   edges: readonly [number, number][],
-  options: BipartiteGraphOptions = {}
+  options: EdgeListOptions = {}
 ): BipartiteGraph {
-  const { validateInput = true, skipInvalidEdges = true } = options;
+  const { edges: adjacencyList } = buildAdjacency(leftSize, rightSize, edges, options, false);
+  
+  return {
+    leftSize,
+    rightSize,
+    edges: adjacencyList
+  };
+}
+
+/**
+ * Helper function to create a weighted bipartite graph from a list of
+ * [leftNode, rightNode, weight] triples.
+ * 
+ * @param leftSize Number of nodes in the left partition
+ * @param rightSize Number of nodes in the right partition
+ * @param edges Array of weighted edges connecting left and right nodes
+ * @param options Configuration options
+ * @returns A WeightedBipartiteGraph object
+ * @throws {BipartiteGraphError} If a size is invalid, or input validation fails and options.skipInvalidEdges is
+ *   false; its issues list every invalid edge
+ */
+export function createWeightedBipartiteGraph(
+  leftSize: number, 
+  rightSize: number, 
+  edges: readonly [number, number, number][],
+  options: EdgeListOptions = {}
+): WeightedBipartiteGraph {
+  const { edges: adjacencyList, weights } = buildAdjacency(leftSize, rightSize, edges, options, true);
+  
+  return {
+    leftSize,
+    rightSize,
+    edges: adjacencyList,
+    weights
+  };
+}
+
+/**
+ * Checks the input of createBipartiteGraph or createWeightedBipartiteGraph
+ * without building the graph, reporting every problem rather than the first.
+ * Duplicate edges are always reported. If a size is invalid, edges are not
+ * checked against it.
+ *
+ * @param leftSize Number of nodes in the left partition
+ * @param rightSize Number of nodes in the right partition
+ * @param edges Edges as [leftNode, rightNode] pairs or [leftNode, rightNode, weight] triples
+ * @returns The issues found, in input order
+ */
+export function validateBipartiteGraph(
+  leftSize: number,
+  rightSize: number,
+  edges: readonly (readonly number[])[]
+): GraphValidationReport {
+  const issues = checkGraphSizes(leftSize, rightSize);
+  if (issues.length === 0) {
+    const seen = new Map<number, number>();
+    edges.forEach((edge, edgeIndex) => {
+      const issue = checkGraphEdge(leftSize, rightSize, edge, edgeIndex, edge.length > 2) ??
+        checkDuplicateEdge(rightSize, edge, edgeIndex, seen);
+      if (issue !== null) {
+        issues.push(issue);
+      }
+    });
+  }
+
+  return { valid: issues.length === 0, issues };
+}
+
+/**
+ * Builds adjacency (and weight) lists shared by the graph helper functions.
+ */
+function buildAdjacency(
+  leftSize: number, 
+  rightSize: number, 
+  edges: readonly (readonly number[])[],
+  options: EdgeListOptions,
+  weighted: boolean
+): { edges: number[][]; weights: number[][] } {
+  const { validateInput = true, skipInvalidEdges = true, deduplicate = false, onInvalidEdge } = options;
   
   // Validate input sizes
   if (validateInput) {
-    if (leftSize < 0) {
-      throw new BipartiteGraphError(`leftSize must be non-negative, got ${leftSize}`);
-    }
-    
-    if (rightSize < 0) {
-      throw new BipartiteGraphError(`rightSize must be non-negative, got ${rightSize}`);
+    const sizeIssues = checkGraphSizes(leftSize, rightSize);
+    if (sizeIssues.length > 0) {
+      throw graphIssuesError(sizeIssues);
     }
   }
   
@@ -199,26 +752,118 @@ export function createBipartiteGraph(
     { length: leftSize }, 
     () => []
   );
+  const weights: number[][] = weighted ? Array.from({ length: leftSize }, () => []) : [];
+  const seen = new Map<number, number>();
+  const invalid: GraphIssue[] = [];
   
-  for (const [u, v] of edges) {
-    // Check for invalid edges
-    if (u < 0 || u >= leftSize || v < 0 || v >= rightSize) {
+  edges.forEach((edge, edgeIndex) => {
+    const issue = checkGraphEdge(leftSize, rightSize, edge, edgeIndex, weighted);
+    if (issue !== null) {
       if (validateInput && !skipInvalidEdges) {
-        throw new BipartiteGraphError(
-          `Invalid edge [${u}, ${v}]: indices must be within ranges [0, ${leftSize-1}] and [0, ${rightSize-1}]`
-        );
+        invalid.push(issue);
+      } else {
+        onInvalidEdge?.(issue); // Skip invalid edges if skipInvalidEdges is true
       }
-      continue; // Skip invalid edges if skipInvalidEdges is true
+      return;
+    }
+    
+    const duplicate = deduplicate ? checkDuplicateEdge(rightSize, edge, edgeIndex, seen) : null;
+    if (duplicate !== null) {
+      onInvalidEdge?.(duplicate);
+      return;
     }
     
     // Add edge from left node u to right node v
+    const [u, v, weight] = edge;
     adjacencyList[u].push(v);
+    if (weighted) {
+      weights[u].push(weight);
+    }
+  });
+  
+  // Report every invalid edge at once rather than only the first
+  if (invalid.length > 0) {
+    throw graphIssuesError(invalid);
   }
   
+  return { edges: adjacencyList, weights };
+}
+
+/**
+ * Checks that both partition sizes are non-negative integers. Shared by the
+ * graph builders here and in ./csr-graph.
+ */
+export function checkGraphSizes(leftSize: number, rightSize: number): GraphIssue[] {
+  const issues: GraphIssue[] = [];
+  for (const [name, size] of [["leftSize", leftSize], ["rightSize", rightSize]] as const) {
+    if (!Number.isInteger(size)) {
+      issues.push({ kind: "invalid-size", message: `${name} must be a non-negative integer, got ${size}` });
+    } else if (size < 0) {
+      issues.push({ kind: "invalid-size", message: `${name} must be non-negative, got ${size}` });
+    }
+  }
+  return issues;
+}
+
+/**
+ * Checks the endpoints and weight of one edge, returning the first problem or null.
+ */
+export function checkGraphEdge(
+  leftSize: number,
+  rightSize: number,
+  edge: readonly number[],
+  edgeIndex: number,
+  weighted: boolean
+): GraphIssue | null {
+  const [u, v, weight] = edge;
+  const issue = (kind: GraphIssueKind, problem: string): GraphIssue => ({
+    kind,
+    message: `Invalid edge [${edge.join(", ")}]: ${problem}`,
+    edgeIndex,
+    edge
+  });
+
+  if (!Number.isInteger(u) || !Number.isInteger(v)) {
+    return issue("non-integer", "indices must be integers");
+  }
+  if (u < 0 || u >= leftSize || v < 0 || v >= rightSize) {
+    return issue("out-of-range", `indices must be within ranges [0, ${leftSize-1}] and [0, ${rightSize-1}]`);
+  }
+  if (weighted && !Number.isFinite(weight)) {
+    return issue("invalid-weight", "weight must be a finite number");
+  }
+  return null;
+}
+
+/**
+ * Records a valid edge in seen (keyed by its endpoints, with the position it
+ * was first given at), returning an issue if it was already there.
+ */
+export function checkDuplicateEdge(
+  rightSize: number,
+  edge: readonly number[],
+  edgeIndex: number,
+  seen: Map<number, number>
+): GraphIssue | null {
+  const [u, v] = edge;
+  const key = u * rightSize + v;
+  const first = seen.get(key);
+  if (first === undefined) {
+    seen.set(key, edgeIndex);
+    return null;
+  }
   return {
-    leftSize,
-    rightSize,
-    edges: adjacencyList
+    kind: "duplicate",
+    message: `Duplicate edge [${u}, ${v}]: first given at index ${first}`,
+    edgeIndex,
+    edge
   };
 }
 
+/**
+ * An error describing the first issue, and carrying all of them.
+ */
+export function graphIssuesError(issues: readonly GraphIssue[]): BipartiteGraphError {
+  const more = issues.length > 1 ? ` (and ${issues.length - 1} more)` : "";
+  return new BipartiteGraphError(`${issues[0].message}${more}`, issues);
+}
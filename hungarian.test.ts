@@ -0,0 +1,205 @@
+import { describe, test, expect } from "bun:test";
+
+import {
+  BipartiteGraphError,
+  HopcroftKarp,
+  WeightedBipartiteGraph,
+  createWeightedBipartiteGraph
+} from "./hopkroft-karp";
+import { Hungarian, WeightedMatching } from "./hungarian";
+import { createRandom } from "./test-helpers";
+
+/**
+ * Brute force: best total weight over all maximum cardinality matchings.
+ */
+function bruteForce(graph: WeightedBipartiteGraph, maximize: boolean): { size: number; best: number } {
+  let bestSize = 0;
+  let best = maximize ? -Infinity : Infinity;
+  const usedRight = new Array(graph.rightSize).fill(false);
+
+  const search = (u: number, size: number, weight: number): void => {
+    if (u === graph.leftSize) {
+      if (size > bestSize) {
+        bestSize = size;
+        best = weight;
+      } else if (size === bestSize) {
+        best = maximize ? Math.max(best, weight) : Math.min(best, weight);
+      }
+      return;
+    }
+
+    search(u + 1, size, weight);
+    graph.edges[u].forEach((v, i) => {
+      if (!usedRight[v]) {
+        usedRight[v] = true;
+        search(u + 1, size + 1, weight + graph.weights[u][i]);
+        usedRight[v] = false;
+      }
+    });
+  };
+
+  search(0, 0, 0);
+  return { size: bestSize, best: bestSize === 0 ? 0 : best };
+}
+
+/**
+ * Checks the matching is consistent and that the potentials are dual
+ * feasible and tight on matched edges.
+ */
+function expectOptimalityCertificate(
+  graph: WeightedBipartiteGraph,
+  matching: WeightedMatching,
+  maximize: boolean
+): void {
+  const { left, right } = matching.potentials;
+  let size = 0;
+
+  for (let u = 0; u < graph.leftSize; u++) {
+    let tight = false;
+    graph.edges[u].forEach((v, i) => {
+      const slack = graph.weights[u][i] - left[u] - right[v];
+      expect(maximize ? slack <= 1e-9 : slack >= -1e-9).toBe(true);
+      if (matching.matchLeft[u] === v && Math.abs(slack) <= 1e-9) {
+        tight = true;
+      }
+    });
+
+    const v = matching.matchLeft[u];
+    if (v !== -1) {
+      expect(matching.matchRight[v]).toBe(u);
+      expect(tight).toBe(true);
+      size++;
+    }
+  }
+
+  expect(matching.size).toBe(size);
+}
+
+describe("createWeightedBipartiteGraph", () => {
+  test("creates weight lists parallel to the edges", () => {
+    const graph = createWeightedBipartiteGraph(2, 2, [
+      [0, 1, 5], [0, 0, 2],
+      [1, 0, -1]
+    ]);
+
+    expect(graph.edges).toEqual([[1, 0], [0]]);
+    expect(graph.weights).toEqual([[5, 2], [-1]]);
+  });
+
+  test("skips edges with non-finite weights by default", () => {
+    const graph = createWeightedBipartiteGraph(2, 2, [
+      [0, 0, NaN], [0, 1, Infinity], [1, 1, 3], [5, 0, 1]
+    ]);
+
+    expect(graph.edges).toEqual([[], [1]]);
+    expect(graph.weights).toEqual([[], [3]]);
+  });
+
+  test("throws error for invalid weights when skipInvalidEdges is false", () => {
+    expect(() => {
+      createWeightedBipartiteGraph(2, 2, [[0, 0, NaN]], { skipInvalidEdges: false });
+    }).toThrow(BipartiteGraphError);
+  });
+});
+
+describe("Hungarian", () => {
+  test("finds minimum cost perfect matching", () => {
+    // Classic 3x3 assignment: optimal cost is 5 (0->1, 1->0, 2->2)
+    const costs = [
+      [4, 1, 3],
+      [2, 0, 5],
+      [3, 2, 2]
+    ];
+    const edges: [number, number, number][] = [];
+    costs.forEach((row, u) => row.forEach((c, v) => edges.push([u, v, c])));
+    const graph = createWeightedBipartiteGraph(3, 3, edges);
+
+    const matching = new Hungarian(graph).findPerfectMatching();
+
+    expect(matching).not.toBeNull();
+    expect(matching?.totalWeight).toBe(5);
+    expect(matching?.matchLeft).toEqual([1, 0, 2]);
+  });
+
+  test("finds maximum weight perfect matching", () => {
+    const graph = createWeightedBipartiteGraph(2, 2, [
+      [0, 0, 3], [0, 1, 1],
+      [1, 0, 2], [1, 1, 5]
+    ]);
+
+    const matching = new Hungarian(graph, { objective: "max-weight" }).findMaximumMatching();
+
+    expect(matching.size).toBe(2);
+    expect(matching.totalWeight).toBe(8);
+    expect(matching.matchLeft).toEqual([0, 1]);
+    expectOptimalityCertificate(graph, matching, true);
+  });
+
+  test("prefers cardinality over weight", () => {
+    // Matching 0->0 alone is cheaper, but 0->1 and 1->0 has more pairs
+    const graph = createWeightedBipartiteGraph(2, 2, [
+      [0, 0, 1], [0, 1, 10],
+      [1, 0, 10]
+    ]);
+
+    const matching = new Hungarian(graph).findMaximumMatching();
+
+    expect(matching.size).toBe(2);
+    expect(matching.totalWeight).toBe(20);
+  });
+
+  test("returns null when perfect matching doesn't exist", () => {
+    const graph = createWeightedBipartiteGraph(2, 2, [[0, 0, 1], [1, 0, 1]]);
+    const hungarian = new Hungarian(graph);
+
+    expect(hungarian.findPerfectMatching()).toBeNull();
+    expect(hungarian.findMaximumMatching().size).toBe(1);
+  });
+
+  test("uses the cheaper of parallel edges", () => {
+    const graph = createWeightedBipartiteGraph(1, 1, [[0, 0, 7], [0, 0, 2]]);
+
+    const matching = new Hungarian(graph).findMaximumMatching();
+
+    expect(matching.totalWeight).toBe(2);
+  });
+
+  test("handles empty graph", () => {
+    const graph = createWeightedBipartiteGraph(0, 0, []);
+
+    const matching = new Hungarian(graph).findPerfectMatching();
+
+    expect(matching?.size).toBe(0);
+    expect(matching?.totalWeight).toBe(0);
+  });
+
+  test("matches brute force on random graphs", () => {
+    const random = createRandom(42);
+
+    for (let trial = 0; trial < 200; trial++) {
+      const leftSize = 1 + random(5);
+      const rightSize = 1 + random(5);
+      const edges: [number, number, number][] = [];
+      for (let u = 0; u < leftSize; u++) {
+        for (let v = 0; v < rightSize; v++) {
+          if (random(3) !== 0) {
+            edges.push([u, v, random(21) - 10]);
+          }
+        }
+      }
+      const graph = createWeightedBipartiteGraph(leftSize, rightSize, edges);
+
+      for (const maximize of [false, true]) {
+        const matching = new Hungarian(graph, {
+          objective: maximize ? "max-weight" : "min-cost"
+        }).findMaximumMatching();
+        const expected = bruteForce(graph, maximize);
+
+        expect(matching.size).toBe(expected.size);
+        expect(matching.size).toBe(new HopcroftKarp(graph).findMaximumMatching().size);
+        expect(matching.totalWeight).toBe(expected.best);
+        expectOptimalityCertificate(graph, matching, maximize);
+      }
+    }
+  });
+});
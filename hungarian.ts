@@ -0,0 +1,281 @@
+/**
+ * Weighted bipartite matching (assignment problem).
+ *
+ * Uses the Hungarian method in its sparse form: successive shortest augmenting
+ * paths found with Dijkstra's algorithm over reduced costs, maintaining dual
+ * potentials so that every intermediate matching is optimal for its size.
+ * Runs in O(V * E log V).
+ */
+
+import { Matching, WeightedBipartiteGraph } from "./hopkroft-karp";
+
+/**
+ * Options for creating a Hungarian solver.
+ */
+export interface HungarianOptions {
+  /** Whether edge weights are costs to minimize or scores to maximize (default: "min-cost") */
+  objective?: "min-cost" | "max-weight";
+}
+
+/**
+ * Dual potentials certifying the optimality of a weighted matching.
+ *
+ * For "min-cost", left[u] + right[v] <= weight(u, v) for every edge; for
+ * "max-weight", left[u] + right[v] >= weight(u, v). In both cases equality
+ * holds on every matched edge, so for a perfect matching the potentials sum
+ * to the total weight.
+ */
+export interface DualPotentials {
+  readonly left: readonly number[];
+  readonly right: readonly number[];
+}
+
+export interface WeightedMatching extends Matching {
+  /** Sum of the weights of the matched edges (the total cost when minimizing) */
+  readonly totalWeight: number;
+  /** Dual potentials proving the matching is optimal */
+  readonly potentials: DualPotentials;
+}
+
+export class Hungarian {
+  private readonly graph: WeightedBipartiteGraph;
+  private readonly sign: number;
+  private result: WeightedMatching | null = null;
+  private static readonly NIL = -1;
+
+  constructor(graph: WeightedBipartiteGraph, options: HungarianOptions = {}) {
+    const { objective = "min-cost" } = options;
+    this.graph = graph;
+    // Maximizing weight is minimizing negated weight
+    this.sign = objective === "max-weight" ? -1 : 1;
+  }
+
+  /**
+   * Finds a perfect matching of minimum cost (or maximum weight) if one exists, otherwise null.
+   */
+  findPerfectMatching(): WeightedMatching | null {
+    const matching = this.findMaximumMatching();
+
+    if (matching.size === this.graph.leftSize &&
+        matching.size === this.graph.rightSize) {
+      return matching;
+    }
+
+    return null;
+  }
+
+  /**
+   * Finds a matching of minimum cost (or maximum weight) among all maximum
+   * cardinality matchings.
+   */
+  findMaximumMatching(): WeightedMatching {
+    if (this.result === null) {
+      this.result = this.solve();
+    }
+    return this.result;
+  }
+
+  private solve(): WeightedMatching {
+    const { leftSize, rightSize, edges, weights } = this.graph;
+    const NIL = Hungarian.NIL;
+    const cost = (u: number, i: number): number => this.sign * weights[u][i];
+
+    const matchLeft: number[] = new Array(leftSize).fill(NIL);
+    const matchRight: number[] = new Array(rightSize).fill(NIL);
+    // Index into edges[matchRight[v]] of the edge matching right node v
+    const matchEdge: number[] = new Array(rightSize).fill(NIL);
+
+    // Potentials of the residual network source -> left -> right -> sink,
+    // chosen so that all residual edges have non-negative reduced cost.
+    // The source potential is always 0.
+    const potentialLeft: number[] = new Array(leftSize).fill(0);
+    const potentialRight: number[] = new Array(rightSize).fill(Infinity);
+    for (let u = 0; u < leftSize; u++) {
+      for (let i = 0; i < edges[u].length; i++) {
+        const v = edges[u][i];
+        potentialRight[v] = Math.min(potentialRight[v], cost(u, i));
+      }
+    }
+    let potentialSink = 0;
+    for (let v = 0; v < rightSize; v++) {
+      if (potentialRight[v] === Infinity) {
+        potentialRight[v] = 0; // Isolated, never reached
+      }
+      potentialSink = Math.min(potentialSink, potentialRight[v]);
+    }
+
+    // Nodes are numbered left 0..leftSize-1, right leftSize..leftSize+rightSize-1, then the sink
+    const sink = leftSize + rightSize;
+    const dist: number[] = new Array(sink + 1);
+    const done: boolean[] = new Array(sink + 1);
+    // parentLeft[v] = left node and edge index through which right node v was reached
+    const parentLeft: number[] = new Array(rightSize);
+    const parentEdge: number[] = new Array(rightSize);
+    let sinkParent = NIL;
+    let size = 0;
+
+    for (;;) {
+      dist.fill(Infinity);
+      done.fill(false);
+      const heap = new MinHeap();
+
+      for (let u = 0; u < leftSize; u++) {
+        if (matchLeft[u] === NIL) {
+          dist[u] = -potentialLeft[u];
+          heap.push(u, dist[u]);
+        }
+      }
+
+      while (heap.size > 0) {
+        const [node, d] = heap.pop();
+        if (done[node] || d > dist[node]) {
+          continue;
+        }
+        done[node] = true;
+
+        if (node === sink) {
+          break;
+        }
+
+        if (node < leftSize) {
+          const u = node;
+          for (let i = 0; i < edges[u].length; i++) {
+            const v = edges[u][i];
+            if (matchRight[v] === u && matchEdge[v] === i) {
+              continue; // Matched edges are only traversed backwards
+            }
+            const next = leftSize + v;
+            const nd = d + cost(u, i) + potentialLeft[u] - potentialRight[v];
+            if (nd < dist[next]) {
+              dist[next] = nd;
+              parentLeft[v] = u;
+              parentEdge[v] = i;
+              heap.push(next, nd);
+            }
+          }
+        } else {
+          const v = node - leftSize;
+          const u = matchRight[v];
+          if (u === NIL) {
+            const nd = d + potentialRight[v] - potentialSink;
+            if (nd < dist[sink]) {
+              dist[sink] = nd;
+              sinkParent = v;
+              heap.push(sink, nd);
+            }
+          } else {
+            const nd = d - cost(u, matchEdge[v]) + potentialRight[v] - potentialLeft[u];
+            if (nd < dist[u]) {
+              dist[u] = nd;
+              heap.push(u, nd);
+            }
+          }
+        }
+      }
+
+      if (!done[sink]) {
+        break; // No augmenting path left: the matching has maximum cardinality
+      }
+
+      // Update potentials; nodes not settled before the sink get the sink distance
+      const sinkDist = dist[sink];
+      for (let u = 0; u < leftSize; u++) {
+        potentialLeft[u] += done[u] ? dist[u] : sinkDist;
+      }
+      for (let v = 0; v < rightSize; v++) {
+        potentialRight[v] += done[leftSize + v] ? dist[leftSize + v] : sinkDist;
+      }
+      potentialSink += sinkDist;
+
+      // Flip the augmenting path back from the sink
+      let v = sinkParent;
+      while (v !== NIL) {
+        const u = parentLeft[v];
+        const previous = matchLeft[u];
+        matchLeft[u] = v;
+        matchRight[v] = u;
+        matchEdge[v] = parentEdge[v];
+        v = previous;
+      }
+      size++;
+    }
+
+    let totalWeight = 0;
+    for (let v = 0; v < rightSize; v++) {
+      if (matchRight[v] !== NIL) {
+        totalWeight += weights[matchRight[v]][matchEdge[v]];
+      }
+    }
+
+    return {
+      matchLeft,
+      matchRight,
+      size,
+      totalWeight,
+      potentials: {
+        left: potentialLeft.map(p => -this.sign * p),
+        right: potentialRight.map(p => this.sign * p)
+      }
+    };
+  }
+}
+
+/**
+ * Binary min-heap of (node, priority) pairs allowing duplicate nodes.
+ */
+class MinHeap {
+  private readonly nodes: number[] = [];
+  private readonly priorities: number[] = [];
+
+  get size(): number {
+    return this.nodes.length;
+  }
+
+  push(node: number, priority: number): void {
+    let i = this.nodes.length;
+    this.nodes.push(node);
+    this.priorities.push(priority);
+
+    while (i > 0) {
+      const parent = (i - 1) >> 1;
+      if (this.priorities[parent] <= priority) {
+        break;
+      }
+      this.nodes[i] = this.nodes[parent];
+      this.priorities[i] = this.priorities[parent];
+      i = parent;
+    }
+    this.nodes[i] = node;
+    this.priorities[i] = priority;
+  }
+
+  pop(): [number, number] {
+    const top: [number, number] = [this.nodes[0], this.priorities[0]];
+    const lastNode = this.nodes.pop() ?? 0;
+    const lastPriority = this.priorities.pop() ?? 0;
+    const n = this.nodes.length;
+
+    if (n > 0) {
+      let i = 0;
+      for (;;) {
+        let child = 2 * i + 1;
+        if (child >= n) {
+          break;
+        }
+        if (child + 1 < n && this.priorities[child + 1] < this.priorities[child]) {
+          child++;
+        }
+        if (this.priorities[child] >= lastPriority) {
+          break;
+        }
+        this.nodes[i] = this.nodes[child];
+        this.priorities[i] = this.priorities[child];
+        i = child;
+      }
+      this.nodes[i] = lastNode;
+      this.priorities[i] = lastPriority;
+    }
+
+    return top;
+  }
+}
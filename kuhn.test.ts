@@ -0,0 +1,26 @@
+import { describe, test, expect } from "bun:test";
+
+import { createBipartiteGraph } from "./hopkroft-karp";
+import { KuhnSolver } from "./kuhn";
+
+describe("KuhnSolver", () => {
+  test("reroutes earlier matches to fit later nodes", () => {
+    // Left 0 takes right 0 first, then moves to right 1 for left 1
+    const graph = createBipartiteGraph(2, 2, [[0, 0], [0, 1], [1, 0]]);
+
+    const matching = new KuhnSolver(graph).findMaximumMatching();
+
+    expect(matching).toEqual({ matchLeft: [1, 0], matchRight: [1, 0], size: 2 });
+  });
+
+  test("counts pairs from the initialization heuristic", () => {
+    const graph = createBipartiteGraph(3, 3, [[0, 0], [0, 1], [1, 0], [2, 2]]);
+    const solver = new KuhnSolver(graph, { initialization: "greedy" });
+
+    expect(solver.initializationStats).toBeNull();
+    expect(solver.findMaximumMatching().size).toBe(3);
+    expect(solver.initializationStats).toEqual({ strategy: "greedy", matched: 2, forced: 0 });
+    // The result is computed once
+    expect(solver.findMaximumMatching()).toBe(solver.findMaximumMatching());
+  });
+});
@@ -0,0 +1,120 @@
+import { describe, test, expect } from "bun:test";
+
+import { BipartiteGraphError, HopcroftKarp } from "./hopkroft-karp";
+import { LabelledBipartiteGraph } from "./labelled-graph";
+
+describe("LabelledBipartiteGraph", () => {
+  const edges: [string, string][] = [
+    ["alice", "shift-1"], ["alice", "shift-2"],
+    ["bob", "shift-2"], ["bob", "shift-3"],
+    ["carol", "shift-1"], ["carol", "shift-3"]
+  ];
+
+  test("indexes labels in order of first appearance", () => {
+    const graph = new LabelledBipartiteGraph(edges);
+
+    expect(graph.leftLabels).toEqual(["alice", "bob", "carol"]);
+    expect(graph.rightLabels).toEqual(["shift-1", "shift-2", "shift-3"]);
+    expect(graph.edges).toEqual([[0, 1], [1, 2], [0, 2]]);
+    expect(graph.leftIndex("bob")).toBe(1);
+    expect(graph.rightIndex("shift-3")).toBe(2);
+  });
+
+  test("keeps isolated labels given up front", () => {
+    const graph = new LabelledBipartiteGraph(edges, {
+      left: ["dave", "carol", "bob", "alice"]
+    });
+
+    expect(graph.leftSize).toBe(4);
+    expect(graph.leftIndex("dave")).toBe(0);
+    expect(graph.edges[0]).toEqual([]);
+
+    const matching = graph.findMaximumMatching();
+    expect(matching.size).toBe(3);
+    expect(matching.unmatchedLeft).toEqual(["dave"]);
+    expect(graph.findPerfectMatching()).toBeNull();
+  });
+
+  test("finds a labelled perfect matching", () => {
+    const graph = new LabelledBipartiteGraph(edges);
+
+    const matching = graph.findPerfectMatching();
+
+    expect(matching).not.toBeNull();
+    expect(matching?.size).toBe(3);
+    expect(matching?.unmatchedRight).toEqual([]);
+    for (const [person, shift] of matching?.pairs ?? []) {
+      expect(edges).toContainEqual([person, shift]);
+    }
+    expect(new Set(matching?.pairs.values()).size).toBe(3);
+  });
+
+  test("works with non-string labels", () => {
+    const room = { name: "room A" };
+    const graph = new LabelledBipartiteGraph<number, { name: string }>([[101, room]]);
+
+    const matching = graph.findPerfectMatching();
+
+    expect(matching?.pairs.get(101)).toBe(room);
+  });
+
+  test("is usable with the index-based solver", () => {
+    const graph = new LabelledBipartiteGraph(edges);
+
+    const matching = new HopcroftKarp(graph).findMaximumMatching();
+    const labelled = graph.toLabelledMatching(matching);
+
+    expect(labelled.size).toBe(3);
+    expect(labelled.pairs.get("alice")).toBe(graph.rightLabels[matching.matchLeft[0]]);
+  });
+
+  test("starts from labelled pairs", () => {
+    const graph = new LabelledBipartiteGraph(edges);
+
+    const matching = graph.findMaximumMatching(new Map([
+      ["alice", "shift-2"],
+      ["carol", "shift-3"]
+    ]));
+
+    // Bob's first augmenting path, through shift-2, moves alice to shift-1
+    expect(matching.pairs).toEqual(new Map([
+      ["alice", "shift-1"],
+      ["bob", "shift-2"],
+      ["carol", "shift-3"]
+    ]));
+  });
+
+  test("reports labels in errors", () => {
+    const graph = new LabelledBipartiteGraph(edges);
+
+    expect(() => graph.leftIndex("mallory")).toThrow('Unknown left label "mallory"');
+    expect(() => {
+      graph.findMaximumMatching(new Map([["alice", "shift-3"]]));
+    }).toThrow('Invalid pair ["alice", "shift-3"]: edge does not exist in the graph');
+    expect(() => {
+      graph.findMaximumMatching(new Map([["alice", "shift-1"], ["carol", "shift-1"]]));
+    }).toThrow('right label "shift-1" is already matched to "alice"');
+  });
+
+  test("rejects unknown labels when skipInvalidEdges is false", () => {
+    const options = { right: ["shift-1", "shift-2"], skipInvalidEdges: false };
+
+    expect(() => new LabelledBipartiteGraph(edges, options)).toThrow(BipartiteGraphError);
+    expect(() => new LabelledBipartiteGraph(edges, options)).toThrow(
+      'Invalid edge ["bob", "shift-3"]: unknown right label "shift-3"'
+    );
+  });
+
+  test("skips unknown labels by default", () => {
+    const graph = new LabelledBipartiteGraph(edges, { right: ["shift-1", "shift-2"] });
+
+    expect(graph.rightSize).toBe(2);
+    expect(graph.edges).toEqual([[0, 1], [1], [0]]);
+  });
+
+  test("throws error for duplicate labels", () => {
+    expect(() => {
+      new LabelledBipartiteGraph(edges, { left: ["alice", "alice"] });
+    }).toThrow(BipartiteGraphError);
+  });
+});
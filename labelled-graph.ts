@@ -0,0 +1,233 @@
+/**
+ * Bipartite graphs over arbitrary vertex labels (user IDs, strings, objects)
+ * instead of dense integer indices.
+ */
+
+import {
+  BipartiteGraph,
+  BipartiteGraphError,
+  BipartiteGraphOptions,
+  HopcroftKarp,
+  Matching
+} from "./hopkroft-karp";
+
+/**
+ * Options for creating a labelled bipartite graph.
+ */
+export interface LabelledBipartiteGraphOptions<L, R> extends BipartiteGraphOptions {
+  /** All left labels in index order, including isolated ones (default: labels in order of first appearance in the edges) */
+  left?: readonly L[];
+  /** All right labels in index order, including isolated ones (default: labels in order of first appearance in the edges) */
+  right?: readonly R[];
+}
+
+export interface LabelledMatching<L, R> {
+  /** Right label matched to each matched left label */
+  readonly pairs: ReadonlyMap<L, R>;
+  /** Left labels that are not matched */
+  readonly unmatchedLeft: readonly L[];
+  /** Right labels that are not matched */
+  readonly unmatchedRight: readonly R[];
+  /** Total number of matched pairs */
+  readonly size: number;
+}
+
+/**
+ * A bipartite graph built from labelled edges such as ["alice", "shift-42"].
+ *
+ * Labels are compared with Map semantics (SameValueZero), so objects are
+ * matched by identity. The graph is also a plain BipartiteGraph over the
+ * label indices, so it works with every solver in this package.
+ */
+export class LabelledBipartiteGraph<L, R> implements BipartiteGraph {
+  readonly leftSize: number;
+  readonly rightSize: number;
+  readonly edges: readonly (readonly number[])[];
+  /** leftLabels[u] is the label of left node u */
+  readonly leftLabels: readonly L[];
+  /** rightLabels[v] is the label of right node v */
+  readonly rightLabels: readonly R[];
+  private readonly leftIndices: Map<L, number>;
+  private readonly rightIndices: Map<R, number>;
+
+  /**
+   * @param edges Pairs of left and right labels
+   * @param options Configuration options
+   * @throws {BipartiteGraphError} If a label list has duplicates, or an edge uses an
+   *   unknown label and options.skipInvalidEdges is false
+   */
+  constructor(
+    edges: Iterable<readonly [L, R]>,
+    options: LabelledBipartiteGraphOptions<L, R> = {}
+  ) {
+    const { validateInput = true, skipInvalidEdges = true } = options;
+    const fixedLeft = options.left !== undefined;
+    const fixedRight = options.right !== undefined;
+
+    this.leftIndices = indexLabels(options.left ?? [], "left");
+    this.rightIndices = indexLabels(options.right ?? [], "right");
+
+    const adjacencyList: number[][] = Array.from({ length: this.leftIndices.size }, () => []);
+
+    for (const [left, right] of edges) {
+      let u = this.leftIndices.get(left);
+      let v = this.rightIndices.get(right);
+
+      if ((u === undefined && fixedLeft) || (v === undefined && fixedRight)) {
+        if (validateInput && !skipInvalidEdges) {
+          const unknown = u === undefined && fixedLeft
+            ? `left label ${formatLabel(left)}`
+            : `right label ${formatLabel(right)}`;
+          throw new BipartiteGraphError(
+            `Invalid edge [${formatLabel(left)}, ${formatLabel(right)}]: unknown ${unknown}`
+          );
+        }
+        continue; // Skip invalid edges if skipInvalidEdges is true
+      }
+
+      if (u === undefined) {
+        u = this.leftIndices.size;
+        this.leftIndices.set(left, u);
+        adjacencyList.push([]);
+      }
+      if (v === undefined) {
+        v = this.rightIndices.size;
+        this.rightIndices.set(right, v);
+      }
+
+      adjacencyList[u].push(v);
+    }
+
+    this.leftSize = this.leftIndices.size;
+    this.rightSize = this.rightIndices.size;
+    this.edges = adjacencyList;
+    this.leftLabels = [...this.leftIndices.keys()];
+    this.rightLabels = [...this.rightIndices.keys()];
+  }
+
+  /**
+   * Returns the index of a left label.
+   *
+   * @throws {BipartiteGraphError} If the label is not in the graph
+   */
+  leftIndex(label: L): number {
+    const u = this.leftIndices.get(label);
+    if (u === undefined) {
+      throw new BipartiteGraphError(`Unknown left label ${formatLabel(label)}`);
+    }
+    return u;
+  }
+
+  /**
+   * Returns the index of a right label.
+   *
+   * @throws {BipartiteGraphError} If the label is not in the graph
+   */
+  rightIndex(label: R): number {
+    const v = this.rightIndices.get(label);
+    if (v === undefined) {
+      throw new BipartiteGraphError(`Unknown right label ${formatLabel(label)}`);
+    }
+    return v;
+  }
+
+  /**
+   * Translates an index-based matching of this graph into labels.
+   */
+  toLabelledMatching(matching: Matching): LabelledMatching<L, R> {
+    const pairs = new Map<L, R>();
+    const unmatchedLeft: L[] = [];
+    const unmatchedRight: R[] = [];
+
+    matching.matchLeft.forEach((v, u) => {
+      if (v === -1) {
+        unmatchedLeft.push(this.leftLabels[u]);
+      } else {
+        pairs.set(this.leftLabels[u], this.rightLabels[v]);
+      }
+    });
+    matching.matchRight.forEach((u, v) => {
+      if (u === -1) {
+        unmatchedRight.push(this.rightLabels[v]);
+      }
+    });
+
+    return { pairs, unmatchedLeft, unmatchedRight, size: pairs.size };
+  }
+
+  /**
+   * Translates labelled pairs into an index-based partial matching of this graph.
+   *
+   * @param pairs Right label for each matched left label
+   * @returns matchLeft for use as an initial matching
+   * @throws {BipartiteGraphError} If a pair uses an unknown label, is not an edge,
+   *   or reuses a right label
+   */
+  toMatching(pairs: ReadonlyMap<L, R>): Pick<Matching, "matchLeft"> {
+    const matchLeft: number[] = new Array(this.leftSize).fill(-1);
+    const usedBy = new Map<number, L>();
+
+    for (const [left, right] of pairs) {
+      const u = this.leftIndex(left);
+      const v = this.rightIndex(right);
+      const pair = `[${formatLabel(left)}, ${formatLabel(right)}]`;
+
+      if (!this.edges[u].includes(v)) {
+        throw new BipartiteGraphError(`Invalid pair ${pair}: edge does not exist in the graph`);
+      }
+
+      const previous = usedBy.get(v);
+      if (previous !== undefined) {
+        throw new BipartiteGraphError(
+          `Invalid pair ${pair}: right label ${formatLabel(right)} is already matched to ${formatLabel(previous)}`
+        );
+      }
+
+      usedBy.set(v, left);
+      matchLeft[u] = v;
+    }
+
+    return { matchLeft };
+  }
+
+  /**
+   * Finds a maximum matching, optionally starting from labelled pairs such as
+   * a previous assignment.
+   */
+  findMaximumMatching(initialPairs?: ReadonlyMap<L, R>): LabelledMatching<L, R> {
+    const initialMatching = initialPairs ? this.toMatching(initialPairs) : undefined;
+    const matching = new HopcroftKarp(this, { initialMatching }).findMaximumMatching();
+    return this.toLabelledMatching(matching);
+  }
+
+  /**
+   * Finds a perfect matching if one exists, otherwise returns null.
+   */
+  findPerfectMatching(initialPairs?: ReadonlyMap<L, R>): LabelledMatching<L, R> | null {
+    const matching = this.findMaximumMatching(initialPairs);
+
+    if (matching.size === this.leftSize && matching.size === this.rightSize) {
+      return matching;
+    }
+
+    return null;
+  }
+}
+
+function indexLabels<T>(labels: readonly T[], side: string): Map<T, number> {
+  const indices = new Map<T, number>();
+  for (const label of labels) {
+    if (indices.has(label)) {
+      throw new BipartiteGraphError(`Duplicate ${side} label ${formatLabel(label)}`);
+    }
+    indices.set(label, indices.size);
+  }
+  return indices;
+}
+
+/**
+ * Formats a label for error messages, quoting strings.
+ */
+function formatLabel(label: unknown): string {
+  return typeof label === "string" ? JSON.stringify(label) : String(label);
+}
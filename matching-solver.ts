@@ -0,0 +1,80 @@
+/**
+ * Shared plumbing for the alternative maximum matching algorithms: CSR edge
+ * storage, typed-array matchings, the initialization heuristic and caching.
+ */
+
+import { Matching, MatchingSolver } from "./hopkroft-karp";
+import { AnyBipartiteGraph, CsrBipartiteGraph, isCsrBipartiteGraph, toCsrBipartiteGraph } from "./csr-graph";
+import {
+  checkInitializationStrategy,
+  extendMatching,
+  InitializationOptions,
+  InitializationStats,
+  InitializationStrategy
+} from "./heuristics";
+
+/**
+ * Options for creating any MatchingSolver.
+ */
+export type MatchingSolverOptions = InitializationOptions;
+
+export abstract class CsrMatchingSolver implements MatchingSolver {
+  protected readonly graph: CsrBipartiteGraph;
+  protected readonly matchLeft: Int32Array;
+  protected readonly matchRight: Int32Array;
+  protected static readonly NIL = -1;
+  private readonly initialization: InitializationStrategy;
+  private lastInitializationStats: InitializationStats | null = null;
+  private matching: Matching | null = null;
+
+  constructor(graph: AnyBipartiteGraph, options: MatchingSolverOptions = {}) {
+    this.graph = isCsrBipartiteGraph(graph) ? graph : toCsrBipartiteGraph(graph);
+    this.matchLeft = new Int32Array(graph.leftSize).fill(CsrMatchingSolver.NIL);
+    this.matchRight = new Int32Array(graph.rightSize).fill(CsrMatchingSolver.NIL);
+    this.initialization = options.initialization ?? "none";
+    checkInitializationStrategy(this.initialization);
+  }
+
+  /**
+   * What the initialization heuristic did, or null if it has not run yet (or
+   * the strategy is none).
+   */
+  get initializationStats(): InitializationStats | null {
+    return this.lastInitializationStats;
+  }
+
+  /**
+   * Finds a maximum matching, running the algorithm on the first call only.
+   */
+  findMaximumMatching(): Matching {
+    if (this.matching === null) {
+      let size = 0;
+      if (this.initialization !== "none") {
+        this.lastInitializationStats = extendMatching(this.graph, this.initialization, this.matchLeft, this.matchRight);
+        size = this.lastInitializationStats.matched;
+      }
+      size += this.solve();
+      this.matching = {
+        matchLeft: Array.from(this.matchLeft),
+        matchRight: Array.from(this.matchRight),
+        size
+      };
+    }
+    return this.matching;
+  }
+
+  /**
+   * Finds a maximum matching. Returns perfect matching if one exists, otherwise null.
+   */
+  findPerfectMatching(): Matching | null {
+    const matching = this.findMaximumMatching();
+    return matching.size === this.graph.leftSize && matching.size === this.graph.rightSize ? matching : null;
+  }
+
+  /**
+   * Grows matchLeft and matchRight into a maximum matching.
+   *
+   * @returns The number of pairs added
+   */
+  protected abstract solve(): number;
+}
@@ -0,0 +1,131 @@
+/**
+ * Worker thread side of ./parallel: answers each request with the number of
+ * pairs it added to the shared matching.
+ */
+
+import { parentPort } from "node:worker_threads";
+
+import { HopcroftKarp } from "./hopkroft-karp";
+import { extendMatching } from "./heuristics";
+import type { SetupMessage, WorkerReply, WorkerRequest } from "./parallel";
+
+const NIL = -1;
+
+let setup: SetupMessage | null = null;
+// Search state of this worker, indexed by left node
+let stack = new Int32Array(0);
+let cursor = new Int32Array(0);
+
+parentPort?.on("message", (message: WorkerRequest) => {
+  const reply: WorkerReply = { added: handle(message) };
+  parentPort?.postMessage(reply);
+});
+
+function handle(message: WorkerRequest): number {
+  if (message.type === "setup") {
+    setup = message;
+    const { leftSize } = message.graph;
+    stack = new Int32Array(leftSize);
+    cursor = new Int32Array(leftSize);
+    return message.id === 0
+      ? extendMatching(message.graph, message.initialization, message.matchLeft, message.matchRight).matched
+      : 0;
+  }
+  if (setup === null) {
+    throw new Error(`Received ${message.type} before setup`);
+  }
+  return message.type === "solve" ? solve(setup) : runPhase(setup, message.phase);
+}
+
+/**
+ * Completes the shared matching with HopcroftKarp.
+ */
+function solve({ graph, matchLeft, matchRight }: SetupMessage): number {
+  const hk = new HopcroftKarp(graph, { initialMatching: { matchLeft: Array.from(matchLeft) } });
+  const before = hk.size;
+  const matching = hk.findMaximumMatching();
+
+  matchLeft.set(matching.matchLeft);
+  matchRight.set(matching.matchRight);
+  return matching.size - before;
+}
+
+/**
+ * Searches depth-first with lookahead from the free left nodes u with
+ * u % workers === id, claiming right nodes for this phase as it goes.
+ */
+function runPhase(
+  { id, workers, graph, matchLeft, matchRight, claims, lookahead }: SetupMessage,
+  phase: number
+): number {
+  const { leftSize, offsets, targets } = graph;
+  const claim = (v: number): boolean => {
+    const previous = Atomics.load(claims, v);
+    return previous !== phase && Atomics.compareExchange(claims, v, previous, phase) === previous;
+  };
+  const flip = (top: number, last: number): void => {
+    for (let i = top - 1; i >= 0; i--) {
+      const w = stack[i];
+      const matched = i === top - 1 ? last : targets[cursor[w]];
+      matchLeft[w] = matched;
+      matchRight[matched] = w;
+    }
+  };
+  let added = 0;
+
+  for (let root = id; root < leftSize; root += workers) {
+    if (matchLeft[root] !== NIL) {
+      continue;
+    }
+    let top = 0;
+    stack[top++] = root;
+    cursor[root] = offsets[root];
+
+    while (top > 0) {
+      const u = stack[top - 1];
+      const end = offsets[u + 1];
+      let found = NIL;
+      let next = NIL;
+
+      for (; lookahead[u] < end; lookahead[u]++) {
+        const v = targets[lookahead[u]];
+        // A free right node claimed by another worker is matched by it this phase
+        if (matchRight[v] === NIL && claim(v)) {
+          found = v;
+          break;
+        }
+      }
+
+      for (; found === NIL && cursor[u] < end; cursor[u]++) {
+        const v = targets[cursor[u]];
+        if (claim(v)) {
+          if (matchRight[v] === NIL) {
+            found = v;
+          } else {
+            next = matchRight[v];
+          }
+          break;
+        }
+      }
+
+      if (found !== NIL) {
+        flip(top, found);
+        added++;
+        break;
+      }
+      if (next !== NIL) {
+        cursor[next] = offsets[next];
+        stack[top++] = next;
+        continue;
+      }
+
+      // Dead end: move the parent past the edge to u
+      top--;
+      if (top > 0) {
+        cursor[stack[top - 1]]++;
+      }
+    }
+  }
+
+  return added;
+}
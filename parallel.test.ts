@@ -0,0 +1,87 @@
+import { describe, test, expect, spyOn } from "bun:test";
+import { Worker } from "node:worker_threads";
+
+import { BipartiteGraphError, createBipartiteGraph, HopcroftKarp } from "./hopkroft-karp";
+import { toSharedCsrBipartiteGraph } from "./csr-graph";
+import { solveInWorker } from "./parallel";
+import { verifyMatching } from "./verify";
+import { createRandom, randomSparseGraph } from "./test-helpers";
+
+describe("solveInWorker", () => {
+  test("runs HopcroftKarp on a worker thread", async () => {
+    const graph = randomSparseGraph(createRandom(1), 2000, 2);
+
+    const matching = await solveInWorker(graph, { initialization: "karp-sipser" });
+
+    expect(matching).toEqual(new HopcroftKarp(graph, { initialization: "karp-sipser" }).findMaximumMatching());
+  });
+
+  test("finds maximum matchings with parallel phases", async () => {
+    for (const [seed, workers] of [[2, 2], [3, 3], [4, 4]]) {
+      const graph = randomSparseGraph(createRandom(seed), 3000, 2);
+
+      const matching = await solveInWorker(graph, { workers });
+
+      expect(verifyMatching(graph, matching, { checkMaximality: true }).maximum).toBe(true);
+      expect(matching.size).toBe(new HopcroftKarp(graph).findMaximumMatching().size);
+    }
+  });
+
+  test("finds long augmenting paths with parallel phases", async () => {
+    // Greedy matches left u to right u + 1, leaving one path through every node
+    const n = 5000;
+    const edges: [number, number][] = [];
+    for (let u = 0; u < n; u++) {
+      edges.push([u, u + 1], [u, u]);
+    }
+    edges.push([n, n]);
+    const graph = createBipartiteGraph(n + 1, n + 1, edges);
+
+    const matching = await solveInWorker(graph, { workers: 2, initialization: "greedy" });
+
+    expect(matching.size).toBe(n + 1);
+  });
+
+  test("shares CSR graphs without copying", () => {
+    const shared = toSharedCsrBipartiteGraph(createBipartiteGraph(2, 2, [[0, 1], [1, 0]]));
+
+    expect(shared.targets.buffer).toBeInstanceOf(SharedArrayBuffer);
+    expect(Array.from(shared.targets)).toEqual([1, 0]);
+    expect(toSharedCsrBipartiteGraph(shared)).toBe(shared);
+  });
+
+  test("rejects when aborted", async () => {
+    const graph = randomSparseGraph(createRandom(5), 1000, 2);
+
+    await expect(solveInWorker(graph, { signal: AbortSignal.abort(new Error("stop")) })).rejects.toThrow("stop");
+
+    const controller = new AbortController();
+    const pending = solveInWorker(graph, { workers: 2, signal: controller.signal });
+    controller.abort(new Error("cancelled"));
+    await expect(pending).rejects.toThrow("cancelled");
+  });
+
+  test("reports workers that fail to load", async () => {
+    const graph = randomSparseGraph(createRandom(7), 10, 1);
+    // Every worker fails before replying, as when its file cannot be loaded
+    const postMessage = spyOn(Worker.prototype, "postMessage").mockImplementation(function (this: Worker) {
+      void Promise.resolve().then(() => this.emit("error", new Error("Cannot find module")));
+    });
+    try {
+      await expect(solveInWorker(graph, { workers: 3 })).rejects.toThrow(
+        /^Worker 0 could not load .*parallel-worker\.ts: Cannot find module$/
+      );
+    } finally {
+      postMessage.mockRestore();
+    }
+  });
+
+  test("validates options", async () => {
+    const graph = randomSparseGraph(createRandom(6), 10, 1);
+
+    await expect(solveInWorker(graph, { workers: 0 })).rejects.toThrow(BipartiteGraphError);
+    await expect(solveInWorker(graph, { workers: 1.5 })).rejects.toThrow(
+      "Invalid number of workers 1.5: must be a positive integer"
+    );
+  });
+});
@@ -0,0 +1,200 @@
+/**
+ * Solving on worker threads, so large graphs neither block the event loop
+ * nor stay limited to one core.
+ *
+ * The graph and the matching live in SharedArrayBuffers that all workers
+ * read and write directly. With one worker, it runs HopcroftKarp. With more,
+ * they run phases of the parallel Pothen-Fan algorithm: every worker searches
+ * depth-first from its own share of the free left nodes, and claims each
+ * right node it visits with an atomic compare-and-swap, so the augmenting
+ * paths found within a phase are vertex-disjoint. A phase in which no worker
+ * finds a path proves the matching maximum.
+ *
+ * Workers run the ./parallel-worker next to this module: the .ts file when
+ * run from source, which only Bun can load, or the .js file of a compiled build.
+ */
+
+import { Worker } from "node:worker_threads";
+
+import { BipartiteGraphError, Matching } from "./hopkroft-karp";
+import { AnyBipartiteGraph, CsrBipartiteGraph, toSharedCsrBipartiteGraph } from "./csr-graph";
+import { checkInitializationStrategy, InitializationOptions, InitializationStrategy } from "./heuristics";
+
+/**
+ * Options for solving on worker threads.
+ */
+export interface WorkerSolveOptions extends InitializationOptions {
+  /** Number of worker threads; more than one runs parallel phases (default: 1) */
+  workers?: number;
+  /** Cancels the run, terminating the workers and rejecting with signal.reason */
+  signal?: AbortSignal;
+}
+
+/** Sent to each worker once, before any phase */
+export interface SetupMessage {
+  readonly type: "setup";
+  readonly id: number;
+  readonly workers: number;
+  readonly graph: CsrBipartiteGraph;
+  readonly matchLeft: Int32Array;
+  readonly matchRight: Int32Array;
+  /** Phase that last claimed each right node */
+  readonly claims: Int32Array;
+  /**
+   * Next edge of each left node to check for a free right node. Right nodes
+   * never become free again, so it only moves forward. A left node is on at
+   * most one worker's search stack per phase, so no two workers move it at once.
+   */
+  readonly lookahead: Int32Array;
+  /** Heuristic to run on worker 0 during setup */
+  readonly initialization: InitializationStrategy;
+}
+
+/** Asks a single worker to finish the matching with HopcroftKarp */
+export interface SolveMessage {
+  readonly type: "solve";
+}
+
+/** Asks every worker to run one parallel phase */
+export interface PhaseMessage {
+  readonly type: "phase";
+  readonly phase: number;
+}
+
+export type WorkerRequest = SetupMessage | SolveMessage | PhaseMessage;
+
+/** Reply to any request: the number of pairs it added */
+export interface WorkerReply {
+  readonly added: number;
+}
+
+const NIL = -1;
+
+const WORKER_URL = new URL(`./parallel-worker.${import.meta.url.endsWith(".ts") ? "ts" : "js"}`, import.meta.url);
+
+/**
+ * Finds a maximum matching on worker threads.
+ *
+ * @param graph Graph to match; CSR graphs backed by SharedArrayBuffers are used without copying
+ * @param options Number of workers, initialization heuristic and cancellation signal
+ * @returns A maximum matching
+ * @throws {BipartiteGraphError} If the options are invalid, or a worker fails to load or to solve; from the
+ *   TypeScript sources, workers only load under Bun
+ */
+export async function solveInWorker(graph: AnyBipartiteGraph, options: WorkerSolveOptions = {}): Promise<Matching> {
+  const { workers = 1, initialization = "none", signal } = options;
+  if (!Number.isInteger(workers) || workers < 1) {
+    throw new BipartiteGraphError(`Invalid number of workers ${workers}: must be a positive integer`);
+  }
+  checkInitializationStrategy(initialization);
+  signal?.throwIfAborted();
+
+  const shared = toSharedCsrBipartiteGraph(graph);
+  const createShared = (length: number, value: number): Int32Array =>
+    new Int32Array(new SharedArrayBuffer(length * Int32Array.BYTES_PER_ELEMENT)).fill(value);
+  const matchLeft = createShared(shared.leftSize, NIL);
+  const matchRight = createShared(shared.rightSize, NIL);
+  const claims = createShared(shared.rightSize, 0);
+  const lookahead = createShared(shared.leftSize, 0);
+  lookahead.set(shared.offsets.subarray(0, shared.leftSize));
+
+  const pool = startWorkers(workers);
+  // Whether each worker has replied yet: an error before that means it could not load
+  const started = new Array<boolean>(workers).fill(false);
+  // Each request resolves with the replies of the workers it was sent to
+  const request = (targets: readonly Worker[], message: (index: number) => WorkerRequest): Promise<number[]> =>
+    new Promise((resolve, reject) => {
+      if (signal?.aborted) {
+        reject(signal.reason);
+        return;
+      }
+      const replies: number[] = [];
+      let pending = targets.length;
+      const cleanups: (() => void)[] = [];
+      const settle = (error: unknown): void => {
+        cleanups.forEach(cleanup => cleanup());
+        if (error === undefined) {
+          resolve(replies);
+        } else {
+          reject(error);
+        }
+      };
+
+      const onAbort = (): void => settle(signal?.reason);
+      signal?.addEventListener("abort", onAbort);
+      cleanups.push(() => signal?.removeEventListener("abort", onAbort));
+
+      targets.forEach((worker, index) => {
+        const onMessage = (reply: WorkerReply): void => {
+          started[index] = true;
+          replies[index] = reply.added;
+          if (--pending === 0) {
+            settle(undefined);
+          }
+        };
+        const onError = (error: Error): void => {
+          settle(new BipartiteGraphError(started[index]
+            ? `Worker ${index} failed: ${error.message}`
+            : `Worker ${index} could not load ${WORKER_URL.href}: ${error.message}`));
+        };
+        worker.once("message", onMessage);
+        worker.once("error", onError);
+        cleanups.push(() => {
+          worker.off("message", onMessage);
+          worker.off("error", onError);
+        });
+        worker.postMessage(message(index));
+      });
+    });
+
+  try {
+    const sum = (replies: number[]): number => replies.reduce((total, added) => total + added, 0);
+    let size = sum(await request(pool, id => ({
+      type: "setup",
+      id,
+      workers,
+      graph: shared,
+      matchLeft,
+      matchRight,
+      claims,
+      lookahead,
+      initialization
+    })));
+
+    if (workers === 1) {
+      size += sum(await request(pool, () => ({ type: "solve" })));
+    } else {
+      for (let phase = 1; ; phase++) {
+        const added = sum(await request(pool, () => ({ type: "phase", phase })));
+        if (added === 0) {
+          break;
+        }
+        size += added;
+      }
+    }
+
+    return { matchLeft: Array.from(matchLeft), matchRight: Array.from(matchRight), size };
+  } finally {
+    await Promise.all(pool.map(worker => worker.terminate()));
+  }
+}
+
+/**
+ * Starts the workers. Errors outside a request, such as those of other workers
+ * once one has failed, are left to the next request instead of going unhandled.
+ */
+function startWorkers(count: number): Worker[] {
+  const pool: Worker[] = [];
+  try {
+    while (pool.length < count) {
+      const worker = new Worker(WORKER_URL);
+      worker.on("error", () => {});
+      pool.push(worker);
+    }
+  } catch (error) {
+    pool.forEach(worker => void worker.terminate());
+    const message = error instanceof Error ? error.message : String(error);
+    throw new BipartiteGraphError(`Could not start a worker from ${WORKER_URL.href}: ${message}`);
+  }
+  return pool;
+}
@@ -0,0 +1,31 @@
+import { describe, test, expect } from "bun:test";
+
+import { createBipartiteGraph, HopcroftKarp } from "./hopkroft-karp";
+import { PothenFanSolver } from "./pothen-fan";
+
+describe("PothenFanSolver", () => {
+  test("looks ahead for free neighbours before descending", () => {
+    // Left 1 can reroute left 0 through right 0, but takes free right 2 directly
+    const graph = createBipartiteGraph(2, 3, [[0, 0], [0, 1], [1, 0], [1, 2]]);
+
+    const matching = new PothenFanSolver(graph).findMaximumMatching();
+
+    expect(matching).toEqual({ matchLeft: [0, 2], matchRight: [0, -1, 1], size: 2 });
+  });
+
+  test("agrees with HopcroftKarp on a regular graph", () => {
+    // Every left node has three neighbours spread around the right side
+    const n = 40;
+    const edges: [number, number][] = [];
+    for (let u = 0; u < n; u++) {
+      for (const offset of [0, 1, 3]) {
+        edges.push([u, (u * 7 + offset) % n]);
+      }
+    }
+    const graph = createBipartiteGraph(n, n, edges);
+
+    const matching = new PothenFanSolver(graph, { initialization: "greedy" }).findMaximumMatching();
+
+    expect(matching.size).toBe(new HopcroftKarp(graph).findMaximumMatching().size);
+  });
+});
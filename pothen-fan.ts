@@ -0,0 +1,85 @@
+/**
+ * Pothen-Fan algorithm: phases of depth-first searches from every free left
+ * node, with right nodes visited at most once per phase so that each phase
+ * finds vertex-disjoint augmenting paths. Before descending, each left node
+ * looks ahead for a free neighbour, which finds most short paths at once.
+ */
+
+import { CsrMatchingSolver } from "./matching-solver";
+
+export class PothenFanSolver extends CsrMatchingSolver {
+  protected solve(): number {
+    const { leftSize, rightSize, offsets, targets } = this.graph;
+    const { matchLeft, matchRight } = this;
+    const NIL = CsrMatchingSolver.NIL;
+    // visited[v] === phase marks right nodes already used in the current phase
+    const visited = new Int32Array(rightSize);
+    const stack = new Int32Array(leftSize);
+    const cursor = new Int32Array(leftSize);
+    // Right nodes never become free again, so lookahead only moves forward across phases
+    const lookahead = offsets.slice(0, leftSize);
+    let phase = 0;
+    let augmented = 0;
+    let augmentedInPhase: number;
+
+    const flip = (top: number, last: number): void => {
+      for (let i = top - 1; i >= 0; i--) {
+        const w = stack[i];
+        const matched = i === top - 1 ? last : targets[cursor[w]];
+        matchLeft[w] = matched;
+        matchRight[matched] = w;
+      }
+    };
+
+    do {
+      phase++;
+      augmentedInPhase = 0;
+
+      for (let root = 0; root < leftSize; root++) {
+        if (matchLeft[root] !== NIL) {
+          continue;
+        }
+        let top = 0;
+        stack[top++] = root;
+        cursor[root] = offsets[root];
+
+        search: while (top > 0) {
+          const u = stack[top - 1];
+          const end = offsets[u + 1];
+
+          for (; lookahead[u] < end; lookahead[u]++) {
+            const v = targets[lookahead[u]];
+            if (matchRight[v] === NIL) {
+              visited[v] = phase;
+              flip(top, v);
+              augmentedInPhase++;
+              break search;
+            }
+          }
+
+          for (; cursor[u] < end; cursor[u]++) {
+            const v = targets[cursor[u]];
+            if (visited[v] !== phase) {
+              visited[v] = phase;
+              // Lookahead found no free neighbour, so v is matched
+              const next = matchRight[v];
+              cursor[next] = offsets[next];
+              stack[top++] = next;
+              continue search;
+            }
+          }
+
+          // Dead end: move the parent past the edge to u
+          top--;
+          if (top > 0) {
+            cursor[stack[top - 1]]++;
+          }
+        }
+      }
+
+      augmented += augmentedInPhase;
+    } while (augmentedInPhase > 0);
+
+    return augmented;
+  }
+}
@@ -0,0 +1,98 @@
+import { describe, test, expect } from "bun:test";
+
+import { findPriorityMatching } from "./priority-matching";
+import { BipartiteGraph, BipartiteGraphError, createBipartiteGraph, HopcroftKarp } from "./hopkroft-karp";
+import { toCsrBipartiteGraph } from "./csr-graph";
+import { verifyMatching } from "./verify";
+import { createRandom, randomDenseGraph } from "./test-helpers";
+
+/**
+ * Sets of left nodes covered by some maximum matching, by exhaustive search.
+ */
+function maximumCoveredSets(graph: BipartiteGraph): number[][] {
+  const best = new HopcroftKarp(graph).findMaximumMatching().size;
+  const sets = new Map<string, number[]>();
+  const used: boolean[] = new Array(graph.rightSize).fill(false);
+  const covered: number[] = [];
+  const search = (u: number): void => {
+    if (u === graph.leftSize) {
+      if (covered.length === best) {
+        sets.set(covered.join(), [...covered]);
+      }
+      return;
+    }
+    search(u + 1);
+    for (const v of graph.edges[u]) {
+      if (!used[v]) {
+        used[v] = true;
+        covered.push(u);
+        search(u + 1);
+        covered.pop();
+        used[v] = false;
+      }
+    }
+  };
+  search(0);
+  return [...sets.values()];
+}
+
+describe("findPriorityMatching", () => {
+  // Customers 0-2 compete for two tables; customer 2 can only take table 1
+  const graph = createBipartiteGraph(3, 2, [[0, 0], [0, 1], [1, 0], [1, 1], [2, 1]]);
+
+  test("leaves the lowest-priority node unmatched", () => {
+    const matching = findPriorityMatching(graph, [1, 3, 2]);
+
+    expect(matching.size).toBe(2);
+    expect(matching.unmatched).toEqual([0]);
+    expect(matching.matchLeft[1]).not.toBe(-1);
+    expect(matching.matchLeft[2]).toBe(1);
+    expect(verifyMatching(graph, matching, { checkMaximality: true }).maximum).toBe(true);
+  });
+
+  test("breaks ties by index", () => {
+    expect(findPriorityMatching(graph, [0, 0, 0]).unmatched).toEqual([2]);
+  });
+
+  test("prioritizes right nodes", () => {
+    // Tables 0-2 for two customers; table 2 is the one to fill first, then table 0
+    const tables = createBipartiteGraph(2, 3, [[0, 0], [0, 1], [1, 1], [1, 2]]);
+
+    const matching = findPriorityMatching(toCsrBipartiteGraph(tables), [5, 0, 9], { side: "right" });
+
+    expect(matching).toEqual({ matchLeft: [0, 2], matchRight: [0, -1, 1], size: 2, unmatched: [1] });
+  });
+
+  test("validates priorities", () => {
+    expect(() => findPriorityMatching(graph, [1, 2])).toThrow("Expected 3 left priorities, got 2");
+    expect(() => findPriorityMatching(graph, [1, NaN], { side: "right" }))
+      .toThrow("Invalid priority NaN of right node 1: must be a finite number");
+    expect(() => findPriorityMatching(graph, [1, 2])).toThrow(BipartiteGraphError);
+  });
+
+  test("covers the lexicographically best set of nodes on random graphs", () => {
+    const random = createRandom(25);
+
+    for (let trial = 0; trial < 200; trial++) {
+      const leftSize = 1 + random(6);
+      const rightSize = 1 + random(6);
+      const graph = randomDenseGraph(random, leftSize, rightSize, 3);
+      const priorities = Array.from({ length: leftSize }, () => random(4));
+
+      const matching = findPriorityMatching(graph, priorities);
+
+      // Compare covered nodes as priority vectors sorted from highest, which the result must maximize
+      const signature = (covered: readonly number[]): number[] =>
+        covered.map(u => priorities[u]).sort((a, b) => b - a);
+      const compare = (a: number[], b: number[]): number => {
+        const i = a.findIndex((x, k) => x !== b[k]);
+        return i === -1 ? 0 : a[i] - b[i];
+      };
+      const result = signature(matching.matchLeft.flatMap((v, u) => (v === -1 ? [] : [u])));
+      const best = maximumCoveredSets(graph).map(signature).reduce((a, b) => (compare(a, b) >= 0 ? a : b));
+
+      expect(result).toEqual(best);
+      expect(verifyMatching(graph, matching, { checkMaximality: true }).maximum).toBe(true);
+    }
+  });
+});
@@ -0,0 +1,94 @@
+/**
+ * Maximum matchings that favour high-priority vertices, e.g. so VIP
+ * customers are never the ones left unmatched.
+ *
+ * The sets of left nodes that can be matched at once form a matroid (the
+ * transversal matroid), so the greedy algorithm is optimal: try the nodes from
+ * highest to lowest priority, and match each one for which an augmenting path
+ * exists. Augmenting never unmatches a node, and a node without a path never
+ * gets one later, so the result is a maximum matching whose matched nodes are
+ * lexicographically best by priority.
+ */
+
+import { BipartiteGraphError, Matching } from "./hopkroft-karp";
+import { AnyBipartiteGraph, isCsrBipartiteGraph, toAdjacencyListGraph } from "./csr-graph";
+import { KuhnSolver } from "./kuhn";
+
+/**
+ * Options for finding a priority matching.
+ */
+export interface PriorityMatchingOptions {
+  /** Side the priorities belong to (default: "left") */
+  side?: "left" | "right";
+}
+
+export interface PriorityMatching extends Matching {
+  /** Nodes of the prioritized side left unmatched, from highest to lowest priority */
+  readonly unmatched: readonly number[];
+}
+
+/**
+ * Finds a maximum matching that matches the highest-priority nodes of one
+ * side first: no other maximum matching covers a node that this one leaves
+ * unmatched without leaving a higher-priority node unmatched instead.
+ *
+ * @param graph Graph to match, in adjacency list or CSR form
+ * @param priorities priorities[x] is the priority of node x of the chosen side; higher is matched first, and ties go to the lower index
+ * @param options Side of the priorities
+ * @returns The matching, with the prioritized nodes it leaves unmatched
+ * @throws {BipartiteGraphError} If there is not one finite priority per node of the side
+ */
+export function findPriorityMatching(
+  graph: AnyBipartiteGraph,
+  priorities: readonly number[],
+  options: PriorityMatchingOptions = {}
+): PriorityMatching {
+  const { side = "left" } = options;
+  const size = side === "left" ? graph.leftSize : graph.rightSize;
+  if (priorities.length !== size) {
+    throw new BipartiteGraphError(`Expected ${size} ${side} priorities, got ${priorities.length}`);
+  }
+  priorities.forEach((priority, x) => {
+    if (!Number.isFinite(priority)) {
+      throw new BipartiteGraphError(`Invalid priority ${priority} of ${side} node ${x}: must be a finite number`);
+    }
+  });
+
+  // Array.prototype.sort is stable, so equal priorities keep index order
+  const order = Array.from({ length: size }, (_, x) => x).sort((a, b) => priorities[b] - priorities[a]);
+
+  if (side === "left") {
+    const { matchLeft, matchRight, size: matched } = new PrioritySolver(graph, order).findMaximumMatching();
+    return { matchLeft, matchRight, size: matched, unmatched: order.filter(u => matchLeft[u] === -1) };
+  }
+
+  // Swap the sides so the prioritized nodes are on the left
+  const { leftSize, rightSize, edges } = isCsrBipartiteGraph(graph) ? toAdjacencyListGraph(graph) : graph;
+  const reversed: number[][] = Array.from({ length: rightSize }, () => []);
+  for (let u = 0; u < leftSize; u++) {
+    for (const v of edges[u]) {
+      reversed[v].push(u);
+    }
+  }
+  const { matchLeft, matchRight, size: matched } = new PrioritySolver(
+    { leftSize: rightSize, rightSize: leftSize, edges: reversed },
+    order
+  ).findMaximumMatching();
+  return { matchLeft: matchRight, matchRight: matchLeft, size: matched, unmatched: order.filter(v => matchLeft[v] === -1) };
+}
+
+/**
+ * Kuhn's algorithm with the left nodes searched from in a given order.
+ */
+class PrioritySolver extends KuhnSolver {
+  private readonly order: readonly number[];
+
+  constructor(graph: AnyBipartiteGraph, order: readonly number[]) {
+    super(graph);
+    this.order = order;
+  }
+
+  protected solve(): number {
+    return this.order.filter(u => this.augmentFrom(u)).length;
+  }
+}
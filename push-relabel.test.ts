@@ -0,0 +1,42 @@
+import { describe, test, expect } from "bun:test";
+
+import { createBipartiteGraph, HopcroftKarp } from "./hopkroft-karp";
+import { createCsrBipartiteGraph } from "./csr-graph";
+import { PushRelabelSolver } from "./push-relabel";
+import { createRandom } from "./test-helpers";
+
+describe("PushRelabelSolver", () => {
+  test("evicts partners that can move elsewhere", () => {
+    // Left 0 takes right 0 first and is pushed on to right 1 by left 1
+    const graph = createBipartiteGraph(2, 2, [[0, 0], [0, 1], [1, 0]]);
+
+    const matching = new PushRelabelSolver(graph).findMaximumMatching();
+
+    expect(matching).toEqual({ matchLeft: [1, 0], matchRight: [1, 0], size: 2 });
+  });
+
+  test("gives up on nodes that cannot be matched", () => {
+    // Three left nodes compete for two right nodes
+    const graph = createBipartiteGraph(3, 2, [[0, 0], [1, 0], [1, 1], [2, 1]]);
+
+    const matching = new PushRelabelSolver(graph).findMaximumMatching();
+
+    expect(matching.size).toBe(2);
+  });
+
+  test("solves large sparse graphs", () => {
+    const random = createRandom(9);
+    const n = 100_000;
+    const lefts = new Int32Array(3 * n);
+    const rights = new Int32Array(3 * n);
+    for (let i = 0; i < lefts.length; i++) {
+      lefts[i] = random(n);
+      rights[i] = random(n);
+    }
+    const graph = createCsrBipartiteGraph(n, n, lefts, rights);
+
+    const matching = new PushRelabelSolver(graph, { initialization: "karp-sipser" }).findMaximumMatching();
+
+    expect(matching.size).toBe(new HopcroftKarp(graph).findMaximumMatching().size);
+  });
+});
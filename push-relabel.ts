@@ -0,0 +1,131 @@
+/**
+ * Push-relabel algorithm for bipartite matching (Goldberg and Kennedy; Kaya,
+ * Langguth, Manne and Uçar). Instead of searching for whole augmenting paths,
+ * each free left node takes the neighbour that looks closest to a free right
+ * node, evicting its partner if needed, and labels steer later choices.
+ */
+
+import { CsrMatchingSolver } from "./matching-solver";
+
+export class PushRelabelSolver extends CsrMatchingSolver {
+  protected solve(): number {
+    const { leftSize, rightSize, offsets, targets } = this.graph;
+    const { matchLeft, matchRight } = this;
+    const NIL = CsrMatchingSolver.NIL;
+    // label[v] is a lower bound on twice the number of matched edges on any
+    // alternating path from right node v to a free right node. No such path
+    // is longer than the number of right nodes, so UNREACHABLE means none exists.
+    const UNREACHABLE = 2 * rightSize;
+    const label = new Int32Array(rightSize);
+    const { sourceOffsets, sources } = this.reverseEdges();
+    const bfsQueue = new Int32Array(rightSize);
+
+    // Exact labels by breadth-first search back from the free right nodes
+    const globalRelabel = (): void => {
+      label.fill(UNREACHABLE);
+      let head = 0;
+      let tail = 0;
+      for (let v = 0; v < rightSize; v++) {
+        if (matchRight[v] === NIL) {
+          label[v] = 0;
+          bfsQueue[tail++] = v;
+        }
+      }
+      while (head < tail) {
+        const v = bfsQueue[head++];
+        for (let i = sourceOffsets[v]; i < sourceOffsets[v + 1]; i++) {
+          const w = matchLeft[sources[i]];
+          if (w !== NIL && label[w] === UNREACHABLE) {
+            label[w] = label[v] + 2;
+            bfsQueue[tail++] = w;
+          }
+        }
+      }
+    };
+
+    // Free left nodes still to be matched, in a circular queue: each left node is in it at most once
+    const active = new Int32Array(Math.max(leftSize, 1));
+    let head = 0;
+    let count = 0;
+    for (let u = 0; u < leftSize; u++) {
+      if (matchLeft[u] === NIL) {
+        active[count++] = u;
+      }
+    }
+
+    const relabelInterval = leftSize + rightSize;
+    let pushesSinceRelabel = 0;
+    let augmented = 0;
+    globalRelabel();
+
+    while (count > 0) {
+      const u = active[head];
+      head = (head + 1) % active.length;
+      count--;
+
+      if (pushesSinceRelabel >= relabelInterval) {
+        globalRelabel();
+        pushesSinceRelabel = 0;
+      }
+
+      // Find the neighbours with the lowest and second lowest labels
+      let best = NIL;
+      let second = UNREACHABLE;
+      for (let i = offsets[u]; i < offsets[u + 1]; i++) {
+        const v = targets[i];
+        if (best === NIL || label[v] < label[best]) {
+          if (best !== NIL && best !== v) {
+            second = Math.min(second, label[best]);
+          }
+          best = v;
+        } else if (v !== best) {
+          second = Math.min(second, label[v]);
+        }
+      }
+      if (best === NIL || label[best] >= UNREACHABLE) {
+        continue; // u cannot be matched, now or later
+      }
+
+      // Double push: u takes best, and its previous partner becomes active
+      const evicted = matchRight[best];
+      if (evicted === NIL) {
+        augmented++;
+      } else {
+        matchLeft[evicted] = NIL;
+        active[(head + count) % active.length] = evicted;
+        count++;
+      }
+      matchLeft[u] = best;
+      matchRight[best] = u;
+      // The only way on from best is back through u to another of its neighbours
+      label[best] = Math.min(second + 2, UNREACHABLE);
+      pushesSinceRelabel++;
+    }
+
+    return augmented;
+  }
+
+  /**
+   * Returns the left nodes adjacent to each right node in CSR form.
+   */
+  private reverseEdges(): { sourceOffsets: Int32Array; sources: Int32Array } {
+    const { leftSize, rightSize, offsets, targets } = this.graph;
+    const sourceOffsets = new Int32Array(rightSize + 1);
+    for (const v of targets) {
+      sourceOffsets[v + 1]++;
+    }
+    for (let v = 0; v < rightSize; v++) {
+      sourceOffsets[v + 1] += sourceOffsets[v];
+    }
+
+    const sources = new Int32Array(targets.length);
+    const next = sourceOffsets.slice(0, -1);
+    for (let u = 0; u < leftSize; u++) {
+      for (let i = offsets[u]; i < offsets[u + 1]; i++) {
+        sources[next[targets[i]]++] = u;
+      }
+    }
+
+    return { sourceOffsets, sources };
+  }
+}
@@ -0,0 +1,85 @@
+import { describe, test, expect } from "bun:test";
+
+import { BipartiteGraphError, createBipartiteGraph, HopcroftKarp } from "./hopkroft-karp";
+import { createCsrBipartiteGraph } from "./csr-graph";
+import { INITIALIZATION_STRATEGIES } from "./heuristics";
+import { createSolver, SOLVER_NAMES, SolverName } from "./solvers";
+import { verifyMatching } from "./verify";
+import { createRandom, randomGraph } from "./test-helpers";
+
+describe("createSolver", () => {
+  test("every solver agrees with HopcroftKarp on random graphs", () => {
+    const random = createRandom(17);
+
+    for (let trial = 0; trial < 100; trial++) {
+      const leftSize = 1 + random(25);
+      const rightSize = 1 + random(25);
+      const graph = randomGraph(random, leftSize, rightSize, random(4 * (leftSize + rightSize)));
+      const expected = new HopcroftKarp(graph).findMaximumMatching().size;
+
+      for (const name of SOLVER_NAMES) {
+        const initialization = INITIALIZATION_STRATEGIES[trial % INITIALIZATION_STRATEGIES.length];
+        const matching = createSolver(name, graph, { initialization }).findMaximumMatching();
+
+        expect(verifyMatching(graph, matching, { checkMaximality: true }).maximum).toBe(true);
+        expect(matching.size).toBe(expected);
+      }
+    }
+  });
+
+  test("every solver finds perfect matchings", () => {
+    const graph = createBipartiteGraph(3, 3, [
+      [0, 0], [0, 1],
+      [1, 1], [1, 2],
+      [2, 0], [2, 2]
+    ]);
+    const noPerfect = createBipartiteGraph(3, 3, [[0, 0], [1, 0], [2, 0]]);
+
+    for (const name of SOLVER_NAMES) {
+      expect(createSolver(name, graph).findPerfectMatching()?.size).toBe(3);
+      expect(createSolver(name, noPerfect).findPerfectMatching()).toBeNull();
+    }
+  });
+
+  test("every solver accepts CSR graphs and handles empty ones", () => {
+    const csr = createCsrBipartiteGraph(2, 2, [0, 0, 1], [0, 1, 0]);
+    const empty = createBipartiteGraph(0, 0, []);
+    const noEdges = createBipartiteGraph(2, 3, []);
+
+    for (const name of SOLVER_NAMES) {
+      expect(createSolver(name, csr).findMaximumMatching().matchLeft).toEqual([1, 0]);
+      expect(createSolver(name, empty).findPerfectMatching()?.size).toBe(0);
+      expect(createSolver(name, noEdges).findMaximumMatching()).toEqual({
+        matchLeft: [-1, -1],
+        matchRight: [-1, -1, -1],
+        size: 0
+      });
+    }
+  });
+
+  test("every solver handles long augmenting paths", () => {
+    // Greedy takes [u, u + 1] for every u < n, leaving one augmenting path from left n through all nodes
+    const n = 50_000;
+    const edges: [number, number][] = [];
+    for (let u = 0; u < n; u++) {
+      edges.push([u, u + 1], [u, u]);
+    }
+    edges.push([n, n]);
+    const graph = createBipartiteGraph(n + 1, n + 1, edges);
+
+    for (const name of SOLVER_NAMES) {
+      const matching = createSolver(name, graph, { initialization: "greedy" }).findMaximumMatching();
+
+      expect(matching.size).toBe(n + 1);
+    }
+  });
+
+  test("rejects unknown names", () => {
+    const graph = createBipartiteGraph(1, 1, [[0, 0]]);
+
+    expect(() => createSolver("simplex" as SolverName, graph)).toThrow(BipartiteGraphError);
+    expect(() => createSolver("simplex" as SolverName, graph)).toThrow(
+      'Unknown solver "simplex": expected one of hopcroft-karp, push-relabel, pothen-fan, kuhn'
+    );
+  });
+});
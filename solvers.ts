@@ -0,0 +1,49 @@
+/**
+ * Maximum matching algorithms selectable by name, so call sites can switch
+ * between them (e.g. from configuration) and benchmarks can compare them.
+ */
+
+import { BipartiteGraphError, HopcroftKarp, MatchingSolver } from "./hopkroft-karp";
+import type { AnyBipartiteGraph } from "./csr-graph";
+import { KuhnSolver } from "./kuhn";
+import type { MatchingSolverOptions } from "./matching-solver";
+import { PothenFanSolver } from "./pothen-fan";
+import { PushRelabelSolver } from "./push-relabel";
+
+/**
+ * - hopcroft-karp: O(E√V) phases of shortest augmenting paths; the default
+ * - push-relabel: local pushes guided by distance labels; often fastest on large sparse graphs
+ * - pothen-fan: phases of depth-first searches with lookahead; good when augmenting paths are long
+ * - kuhn: one depth-first search per free node, O(VE); low overhead on small graphs
+ */
+export type SolverName = "hopcroft-karp" | "push-relabel" | "pothen-fan" | "kuhn";
+
+export const SOLVER_NAMES: readonly SolverName[] = ["hopcroft-karp", "push-relabel", "pothen-fan", "kuhn"];
+
+/**
+ * Creates a solver for the graph using the named algorithm.
+ *
+ * @param name Algorithm to use
+ * @param graph Graph to match, in adjacency list or CSR form
+ * @param options Options shared by all algorithms
+ * @returns A solver that computes the matching on demand
+ * @throws {BipartiteGraphError} If the name or the initialization strategy is unknown
+ */
+export function createSolver(
+  name: SolverName,
+  graph: AnyBipartiteGraph,
+  options: MatchingSolverOptions = {}
+): MatchingSolver {
+  switch (name) {
+    case "hopcroft-karp":
+      return new HopcroftKarp(graph, options);
+    case "push-relabel":
+      return new PushRelabelSolver(graph, options);
+    case "pothen-fan":
+      return new PothenFanSolver(graph, options);
+    case "kuhn":
+      return new KuhnSolver(graph, options);
+    default:
+      throw new BipartiteGraphError(`Unknown solver "${name}": expected one of ${SOLVER_NAMES.join(", ")}`);
+  }
+}
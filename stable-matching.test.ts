@@ -0,0 +1,254 @@
+import { describe, test, expect } from "bun:test";
+
+import { BipartiteGraphError, Matching } from "./hopkroft-karp";
+import {
+  findBlockingPairs,
+  galeShapley,
+  PreferenceGraph,
+  PreferenceList,
+  rankMaximalMatching
+} from "./stable-matching";
+import { createRandom } from "./test-helpers";
+
+/**
+ * Brute force: every matching of the graph, of any size.
+ */
+function allMatchings(graph: PreferenceGraph): Matching[] {
+  const result: Matching[] = [];
+  const matchLeft: number[] = new Array(graph.leftSize).fill(-1);
+  const matchRight: number[] = new Array(graph.rightSize).fill(-1);
+
+  const search = (u: number, size: number): void => {
+    if (u === graph.leftSize) {
+      result.push({ matchLeft: [...matchLeft], matchRight: [...matchRight], size });
+      return;
+    }
+    search(u + 1, size);
+    for (const v of graph.edges[u]) {
+      if (matchRight[v] === -1) {
+        matchLeft[u] = v;
+        matchRight[v] = u;
+        search(u + 1, size + 1);
+        matchLeft[u] = -1;
+        matchRight[v] = -1;
+      }
+    }
+  };
+
+  search(0, 0);
+  return result;
+}
+
+/**
+ * Random preference lists over a random subset of the other side, with occasional ties.
+ */
+function randomPreferences(
+  random: (n: number) => number,
+  size: number,
+  otherSize: number,
+  ties: boolean
+): PreferenceList[] {
+  return Array.from({ length: size }, () => {
+    const partners = Array.from({ length: otherSize }, (_, i) => i).filter(() => random(4) !== 0);
+    for (let i = partners.length - 1; i > 0; i--) {
+      const j = random(i + 1);
+      [partners[i], partners[j]] = [partners[j], partners[i]];
+    }
+    const list: (number | number[])[] = [];
+    for (const partner of partners) {
+      const last = list[list.length - 1];
+      if (ties && list.length > 0 && random(3) === 0) {
+        list[list.length - 1] = typeof last === "number" ? [last, partner] : [...last, partner];
+      } else {
+        list.push(partner);
+      }
+    }
+    return list;
+  });
+}
+
+describe("PreferenceGraph", () => {
+  test("keeps mutually acceptable pairs in order of preference", () => {
+    const graph = new PreferenceGraph(
+      [[1, [0, 2]], [2]],
+      [[0], [0, 1], [1]]
+    );
+
+    // Right node 2 does not accept left node 0
+    expect(graph.edges).toEqual([[1, 0], [2]]);
+    expect(graph.leftRank(0, 0)).toBe(1);
+    expect(graph.leftRank(0, 2)).toBe(1);
+    expect(graph.rightRank(1, 1)).toBe(1);
+    expect(graph.rightRank(2, 0)).toBe(Infinity);
+    expect(graph.neighboursOfRight(1)).toEqual([0]);
+  });
+
+  test("makes right nodes indifferent when their preferences are omitted", () => {
+    const graph = new PreferenceGraph([[1, 0], [1]], undefined, { rightSize: 3 });
+
+    expect(graph.twoSided).toBe(false);
+    expect(graph.rightSize).toBe(3);
+    expect(graph.edges).toEqual([[1, 0], [1]]);
+    expect(graph.rightRank(1, 0)).toBe(graph.rightRank(1, 1));
+  });
+
+  test("validates preference lists", () => {
+    expect(() => new PreferenceGraph([[0, 0]], [[0]])).toThrow(
+      "Invalid preference list of left node 0: right node 0 is listed twice"
+    );
+    expect(() => new PreferenceGraph([[0]], [[1]])).toThrow(
+      "Invalid preference list of right node 0: left node 1 is out of range [0, 0]"
+    );
+    expect(() => new PreferenceGraph([[0]], [[0]], { rightSize: 2 })).toThrow(BipartiteGraphError);
+  });
+});
+
+describe("galeShapley", () => {
+  // Each side's first choices form a cycle, so proposer and receiver optimal matchings differ
+  const graph = new PreferenceGraph(
+    [[0, 1, 2], [1, 2, 0], [2, 0, 1]],
+    [[1, 2, 0], [2, 0, 1], [0, 1, 2]]
+  );
+
+  test("gives each proposer their best stable partner", () => {
+    expect(galeShapley(graph).matchLeft).toEqual([0, 1, 2]);
+    expect(galeShapley(graph, { proposers: "right" }).matchRight).toEqual([1, 2, 0]);
+  });
+
+  test("is optimal for the proposers with strict preferences", () => {
+    const random = createRandom(3);
+
+    for (let trial = 0; trial < 100; trial++) {
+      const leftSize = 1 + random(4);
+      const rightSize = 1 + random(4);
+      const graph = new PreferenceGraph(
+        randomPreferences(random, leftSize, rightSize, false),
+        randomPreferences(random, rightSize, leftSize, false)
+      );
+      const stable = allMatchings(graph).filter(m => findBlockingPairs(graph, m).length === 0);
+
+      const matching = galeShapley(graph);
+
+      expect(findBlockingPairs(graph, matching)).toEqual([]);
+      matching.matchLeft.forEach((v, u) => {
+        for (const other of stable) {
+          expect(graph.leftRank(u, v)).toBeLessThanOrEqual(graph.leftRank(u, other.matchLeft[u]));
+        }
+      });
+    }
+  });
+
+  test("finds weakly stable matchings with ties and incomplete lists", () => {
+    const random = createRandom(8);
+
+    for (let trial = 0; trial < 100; trial++) {
+      const leftSize = 1 + random(5);
+      const rightSize = 1 + random(5);
+      const graph = new PreferenceGraph(
+        randomPreferences(random, leftSize, rightSize, true),
+        randomPreferences(random, rightSize, leftSize, true)
+      );
+
+      for (const proposers of ["left", "right"] as const) {
+        const matching = galeShapley(graph, { proposers });
+
+        expect(findBlockingPairs(graph, matching)).toEqual([]);
+        matching.matchLeft.forEach((v, u) => {
+          if (v !== -1) {
+            expect(matching.matchRight[v]).toBe(u);
+            expect(graph.edges[u]).toContain(v);
+          }
+        });
+      }
+    }
+  });
+});
+
+describe("findBlockingPairs", () => {
+  test("reports pairs that prefer each other", () => {
+    const graph = new PreferenceGraph([[0, 1], [0]], [[1, 0], [0]]);
+
+    // Left 1 and right 0 prefer each other to being unmatched and to left 0
+    const matching = { matchLeft: [0, -1], matchRight: [0, -1], size: 1 };
+
+    expect(findBlockingPairs(graph, matching)).toEqual([[1, 0]]);
+  });
+
+  test("does not count ties as blocking", () => {
+    const graph = new PreferenceGraph([[[0, 1]], [0]], [[[0, 1]], [0]]);
+
+    // Left 0 is indifferent between right 0 and right 1
+    expect(findBlockingPairs(graph, { matchLeft: [1, 0], matchRight: [1, 0], size: 2 })).toEqual([]);
+  });
+
+  test("rejects matchings of unacceptable pairs", () => {
+    const graph = new PreferenceGraph([[0]], [[]]);
+
+    expect(() => findBlockingPairs(graph, { matchLeft: [0], matchRight: [0], size: 1 })).toThrow(
+      "Matched pair [0, 0] is not mutually acceptable"
+    );
+  });
+});
+
+describe("rankMaximalMatching", () => {
+  test("prefers more first choices over a larger matching", () => {
+    // Applicants 0 and 1 both rank post 0 first; applicant 0 ranks post 1 second
+    const graph = new PreferenceGraph([[0, 1], [0]]);
+
+    const matching = rankMaximalMatching(graph);
+
+    expect(matching.matchLeft).toEqual([1, 0]);
+    expect(matching.signature).toEqual([1, 1]);
+  });
+
+  test("handles ties", () => {
+    const graph = new PreferenceGraph([[[0, 1]], [0], [[1, 2], 0]]);
+
+    const matching = rankMaximalMatching(graph);
+
+    expect(matching.signature).toEqual([3, 0]);
+  });
+
+  test("agrees with brute force on random one-sided instances", () => {
+    const random = createRandom(21);
+    const compare = (a: readonly number[], b: readonly number[]): number => {
+      for (let i = 0; i < Math.max(a.length, b.length); i++) {
+        if ((a[i] ?? 0) !== (b[i] ?? 0)) {
+          return (a[i] ?? 0) - (b[i] ?? 0);
+        }
+      }
+      return 0;
+    };
+
+    for (let trial = 0; trial < 150; trial++) {
+      const leftSize = 1 + random(5);
+      const rightSize = 1 + random(5);
+      const graph = new PreferenceGraph(randomPreferences(random, leftSize, rightSize, true), undefined, {
+        rightSize
+      });
+
+      let best: number[] = [];
+      for (const m of allMatchings(graph)) {
+        const signature: number[] = [];
+        m.matchLeft.forEach((v, u) => {
+          if (v !== -1) {
+            const rank = graph.leftRank(u, v);
+            signature[rank] = (signature[rank] ?? 0) + 1;
+          }
+        });
+        if (compare(signature, best) > 0) {
+          best = signature;
+        }
+      }
+
+      const matching = rankMaximalMatching(graph);
+
+      expect(compare(matching.signature, best)).toBe(0);
+      matching.matchLeft.forEach((v, u) => {
+        if (v !== -1) {
+          expect(matching.matchRight[v]).toBe(u);
+        }
+      });
+    }
+  });
+});
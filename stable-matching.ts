@@ -0,0 +1,323 @@
+/**
+ * Preference-aware matching: bipartite graphs built from ranked preference
+ * lists, stable matchings (Gale-Shapley), blocking pairs, and rank-maximal
+ * matchings.
+ *
+ * Preference lists may be incomplete (unlisted partners are unacceptable) and
+ * may contain ties, written as arrays of equally ranked partners:
+ * [2, [0, 3], 1] ranks 2 first, 0 and 3 joint second, and 1 last.
+ */
+
+import { dulmageMendelsohn } from "./dulmage-mendelsohn";
+import { BipartiteGraph, BipartiteGraphError, HopcroftKarp, Matching } from "./hopkroft-karp";
+
+/** Partners in order of preference; an array entry is a group of equally ranked partners */
+export type PreferenceList = readonly (number | readonly number[])[];
+
+/**
+ * Options for creating a preference graph.
+ */
+export interface PreferenceGraphOptions {
+  /** Number of right nodes when right preferences are omitted (default: largest listed right node + 1) */
+  rightSize?: number;
+}
+
+/**
+ * A bipartite graph whose edges are the mutually acceptable pairs of two
+ * sets of preference lists.
+ *
+ * Right preferences may be omitted for one-sided problems such as assigning
+ * applicants to posts; every right node then accepts every left node that
+ * lists it, and is indifferent between them.
+ */
+export class PreferenceGraph implements BipartiteGraph {
+  readonly leftSize: number;
+  readonly rightSize: number;
+  /** Mutually acceptable right nodes of each left node, in order of preference */
+  readonly edges: readonly (readonly number[])[];
+  /** Whether right nodes have preferences of their own */
+  readonly twoSided: boolean;
+  // Rank (tie group index) of each listed partner, per vertex
+  private readonly leftRanks: Map<number, number>[];
+  private readonly rightRanks: Map<number, number>[];
+  // Every listed partner in order, ties broken by position, per vertex
+  private readonly leftOrder: number[][];
+  private readonly rightOrder: number[][];
+
+  /**
+   * @param leftPreferences Preference list of each left node over right nodes
+   * @param rightPreferences Preference list of each right node over left nodes (default: indifferent)
+   * @param options Configuration options
+   * @throws {BipartiteGraphError} If a list names a node out of range or names a node twice
+   */
+  constructor(
+    leftPreferences: readonly PreferenceList[],
+    rightPreferences?: readonly PreferenceList[],
+    options: PreferenceGraphOptions = {}
+  ) {
+    this.leftSize = leftPreferences.length;
+    this.twoSided = rightPreferences !== undefined;
+
+    const listed = (): number => leftPreferences.reduce(
+      (max, list) => list.flat().reduce((m, v) => Math.max(m, v + 1), max),
+      0
+    );
+    this.rightSize = rightPreferences?.length ?? options.rightSize ?? listed();
+    if (rightPreferences !== undefined && options.rightSize !== undefined &&
+        options.rightSize !== rightPreferences.length) {
+      throw new BipartiteGraphError(
+        `rightSize ${options.rightSize} does not match ${rightPreferences.length} right preference lists`
+      );
+    }
+
+    [this.leftRanks, this.leftOrder] = indexPreferences(leftPreferences, this.rightSize, "left");
+    if (rightPreferences !== undefined) {
+      [this.rightRanks, this.rightOrder] = indexPreferences(rightPreferences, this.leftSize, "right");
+    } else {
+      // Indifferent right nodes accept whoever lists them
+      this.rightRanks = Array.from({ length: this.rightSize }, () => new Map());
+      this.rightOrder = Array.from({ length: this.rightSize }, () => []);
+      this.leftOrder.forEach((order, u) => {
+        for (const v of order) {
+          this.rightRanks[v].set(u, 0);
+          this.rightOrder[v].push(u);
+        }
+      });
+    }
+
+    this.edges = this.leftOrder.map((order, u) => order.filter(v => this.rightRanks[v].has(u)));
+    this.rightOrder = this.rightOrder.map((order, v) => order.filter(u => this.leftRanks[u].has(v)));
+  }
+
+  /**
+   * Rank of right node v for left node u: 0 for the most preferred, equal for
+   * ties, Infinity if unacceptable.
+   */
+  leftRank(u: number, v: number): number {
+    return this.leftRanks[u].get(v) ?? Infinity;
+  }
+
+  /**
+   * Rank of left node u for right node v: 0 for the most preferred, equal for
+   * ties, Infinity if unacceptable.
+   */
+  rightRank(v: number, u: number): number {
+    return this.rightRanks[v].get(u) ?? Infinity;
+  }
+
+  /** Mutually acceptable left nodes of right node v, in order of preference */
+  neighboursOfRight(v: number): readonly number[] {
+    return this.rightOrder[v];
+  }
+}
+
+/**
+ * Options for Gale-Shapley.
+ */
+export interface GaleShapleyOptions {
+  /** Side that proposes; the result is optimal for the proposing side when preferences are strict (default: "left") */
+  proposers?: "left" | "right";
+}
+
+/**
+ * Finds a stable matching with the Gale-Shapley deferred acceptance algorithm
+ * in O(E) time.
+ *
+ * Ties are broken by list order, so with ties the result is weakly stable:
+ * no unmatched acceptable pair strictly prefers each other to their partners.
+ * Different tie-breaks can give weakly stable matchings of different sizes.
+ */
+export function galeShapley(graph: PreferenceGraph, options: GaleShapleyOptions = {}): Matching {
+  const { proposers = "left" } = options;
+  const leftProposes = proposers === "left";
+  const proposerCount = leftProposes ? graph.leftSize : graph.rightSize;
+  const receiverCount = leftProposes ? graph.rightSize : graph.leftSize;
+  const listOf = (p: number): readonly number[] =>
+    leftProposes ? graph.edges[p] : graph.neighboursOfRight(p);
+  // Receivers compare proposers by rank, breaking ties by list position
+  const position = Array.from({ length: receiverCount }, (_, r) =>
+    new Map((leftProposes ? graph.neighboursOfRight(r) : graph.edges[r]).map((p, i) => [p, i]))
+  );
+
+  const partnerOfProposer: number[] = new Array(proposerCount).fill(-1);
+  const partnerOfReceiver: number[] = new Array(receiverCount).fill(-1);
+  const next = new Int32Array(proposerCount);
+  const free: number[] = [];
+  for (let p = proposerCount - 1; p >= 0; p--) {
+    free.push(p);
+  }
+
+  for (let p = free.pop(); p !== undefined; p = free.pop()) {
+    const list = listOf(p);
+    while (next[p] < list.length) {
+      const r = list[next[p]++];
+      const current = partnerOfReceiver[r];
+      if (current === -1) {
+        partnerOfReceiver[r] = p;
+        partnerOfProposer[p] = r;
+        break;
+      }
+      if ((position[r].get(p) ?? Infinity) < (position[r].get(current) ?? Infinity)) {
+        partnerOfReceiver[r] = p;
+        partnerOfProposer[p] = r;
+        partnerOfProposer[current] = -1;
+        free.push(current);
+        break;
+      }
+    }
+  }
+
+  const [matchLeft, matchRight] = leftProposes
+    ? [partnerOfProposer, partnerOfReceiver]
+    : [partnerOfReceiver, partnerOfProposer];
+  return { matchLeft, matchRight, size: matchLeft.filter(v => v !== -1).length };
+}
+
+/**
+ * Finds the pairs that block a matching: mutually acceptable, not matched to
+ * each other, and each strictly preferring the other to their current
+ * partner (or to being unmatched). A matching is stable exactly when there
+ * are none.
+ *
+ * @returns Blocking [left, right] pairs, by left node and then preference
+ * @throws {BipartiteGraphError} If the matching pairs nodes that are not mutually acceptable
+ */
+export function findBlockingPairs(graph: PreferenceGraph, matching: Matching): [number, number][] {
+  const { matchLeft, matchRight } = matching;
+  matchLeft.forEach((v, u) => {
+    if (v !== -1 && graph.leftRank(u, v) + graph.rightRank(v, u) === Infinity) {
+      throw new BipartiteGraphError(`Matched pair [${u}, ${v}] is not mutually acceptable`);
+    }
+  });
+
+  const blocking: [number, number][] = [];
+  graph.edges.forEach((adjacent, u) => {
+    for (const v of adjacent) {
+      const leftPrefers = matchLeft[u] === -1 || graph.leftRank(u, v) < graph.leftRank(u, matchLeft[u]);
+      const rightPrefers = matchRight[v] === -1 || graph.rightRank(v, u) < graph.rightRank(v, matchRight[v]);
+      if (matchLeft[u] !== v && leftPrefers && rightPrefers) {
+        blocking.push([u, v]);
+      }
+    }
+  });
+  return blocking;
+}
+
+export interface RankMaximalMatching extends Matching {
+  /** signature[i] is the number of left nodes matched to a partner of rank i */
+  readonly signature: readonly number[];
+}
+
+/**
+ * Finds a rank-maximal matching: one that matches as many left nodes as
+ * possible to a first choice, subject to that as many as possible to a
+ * second choice, and so on. Only left preferences are used, and ties are
+ * allowed.
+ *
+ * Follows Irving, Kavitha, Mehlhorn, Michail and Paluch: after finding a
+ * maximum matching on the edges of rank up to i, the Dulmage-Mendelsohn
+ * decomposition identifies edges that no rank-maximal matching can use, which
+ * are pruned before rank i + 1 edges are added.
+ */
+export function rankMaximalMatching(graph: PreferenceGraph): RankMaximalMatching {
+  const { leftSize, rightSize, edges } = graph;
+  const ranks = edges.map((adjacent, u) => adjacent.map(v => graph.leftRank(u, v)));
+  const alive = edges.map(adjacent => adjacent.map(() => true));
+  const maxRank = ranks.reduce((max, list) => list.reduce((m, rank) => Math.max(m, rank), max), -1);
+
+  let matchLeft: readonly number[] = new Array(leftSize).fill(-1);
+  let matchRight: readonly number[] = new Array(rightSize).fill(-1);
+
+  for (let rank = 0; rank <= maxRank; rank++) {
+    const current: BipartiteGraph = {
+      leftSize,
+      rightSize,
+      edges: edges.map((adjacent, u) => adjacent.filter((_, i) => alive[u][i] && ranks[u][i] <= rank))
+    };
+    const matching = new HopcroftKarp(current, { initialMatching: { matchLeft } }).findMaximumMatching();
+    ({ matchLeft, matchRight } = matching);
+    if (rank === maxRank) {
+      break;
+    }
+
+    // Even nodes are reachable from a free node of their own side by an even
+    // alternating path, odd nodes by an odd one; the rest are unreachable
+    const { leftSurplus, rightSurplus } = dulmageMendelsohn(current, matching);
+    const EVEN = 0;
+    const ODD = 1;
+    const UNREACHABLE = 2;
+    const leftClass = new Uint8Array(leftSize).fill(UNREACHABLE);
+    const rightClass = new Uint8Array(rightSize).fill(UNREACHABLE);
+    leftSurplus.left.forEach(u => { leftClass[u] = EVEN; });
+    leftSurplus.right.forEach(v => { rightClass[v] = ODD; });
+    rightSurplus.left.forEach(u => { leftClass[u] = ODD; });
+    rightSurplus.right.forEach(v => { rightClass[v] = EVEN; });
+
+    edges.forEach((adjacent, u) => adjacent.forEach((v, i) => {
+      if (!alive[u][i]) {
+        return;
+      }
+      const a = leftClass[u];
+      const b = rightClass[v];
+      // Odd and unreachable nodes are matched in every maximum matching so far:
+      // they take no worse edges, and odd-odd and odd-unreachable edges are unusable
+      if (ranks[u][i] > rank ? a !== EVEN || b !== EVEN : a !== EVEN && b !== EVEN && (a === ODD || b === ODD)) {
+        alive[u][i] = false;
+      }
+    }));
+  }
+
+  const signature: number[] = new Array(maxRank + 1).fill(0);
+  matchLeft.forEach((v, u) => {
+    if (v !== -1) {
+      signature[graph.leftRank(u, v)]++;
+    }
+  });
+
+  return {
+    matchLeft: [...matchLeft],
+    matchRight: [...matchRight],
+    size: signature.reduce((sum, count) => sum + count, 0),
+    signature
+  };
+}
+
+/**
+ * Validates preference lists and indexes them by rank.
+ *
+ * @returns Rank maps and flattened lists, one per vertex
+ */
+function indexPreferences(
+  lists: readonly PreferenceList[],
+  otherSize: number,
+  side: "left" | "right"
+): [Map<number, number>[], number[][]] {
+  const other = side === "left" ? "right" : "left";
+  const ranks: Map<number, number>[] = [];
+  const orders: number[][] = [];
+
+  lists.forEach((list, node) => {
+    const rank = new Map<number, number>();
+    const order: number[] = [];
+    list.forEach((entry, group) => {
+      for (const partner of typeof entry === "number" ? [entry] : entry) {
+        if (!Number.isInteger(partner) || partner < 0 || partner >= otherSize) {
+          throw new BipartiteGraphError(
+            `Invalid preference list of ${side} node ${node}: ${other} node ${partner} is out of range [0, ${otherSize - 1}]`
+          );
+        }
+        if (rank.has(partner)) {
+          throw new BipartiteGraphError(
+            `Invalid preference list of ${side} node ${node}: ${other} node ${partner} is listed twice`
+          );
+        }
+        rank.set(partner, group);
+        order.push(partner);
+      }
+    });
+    ranks.push(rank);
+    orders.push(order);
+  });
+
+  return [ranks, orders];
+}
@@ -0,0 +1,54 @@
+/**
+ * Seeded random inputs shared by the tests, so every run checks the same graphs.
+ */
+
+import { BipartiteGraph, createBipartiteGraph } from "./hopkroft-karp";
+
+/**
+ * Park-Miller generator: random(n) returns an integer in [0, n).
+ */
+export function createRandom(seed: number): (n: number) => number {
+  return n => {
+    seed = (seed * 48271) % 2147483647;
+    return seed % n;
+  };
+}
+
+/**
+ * Graph with edgeCount edges between uniformly random nodes; repeats are kept.
+ */
+export function randomGraph(random: (n: number) => number, leftSize: number, rightSize: number, edgeCount: number): BipartiteGraph {
+  const edges: [number, number][] = [];
+  for (let i = 0; i < edgeCount; i++) {
+    edges.push([random(leftSize), random(rightSize)]);
+  }
+  return createBipartiteGraph(leftSize, rightSize, edges);
+}
+
+/**
+ * Graph in which each pair of nodes is an edge with probability 1 / sparsity.
+ */
+export function randomDenseGraph(random: (n: number) => number, leftSize: number, rightSize: number, sparsity: number): BipartiteGraph {
+  const edges: [number, number][] = [];
+  for (let u = 0; u < leftSize; u++) {
+    for (let v = 0; v < rightSize; v++) {
+      if (random(sparsity) === 0) {
+        edges.push([u, v]);
+      }
+    }
+  }
+  return createBipartiteGraph(leftSize, rightSize, edges);
+}
+
+/**
+ * Graph with n nodes per side in which each left node has degree edges to random right nodes.
+ */
+export function randomSparseGraph(random: (n: number) => number, n: number, degree: number): BipartiteGraph {
+  const edges: [number, number][] = [];
+  for (let u = 0; u < n; u++) {
+    for (let k = 0; k < degree; k++) {
+      edges.push([u, random(n)]);
+    }
+  }
+  return createBipartiteGraph(n, n, edges);
+}
@@ -0,0 +1,107 @@
+import { describe, test, expect } from "bun:test";
+
+import { BipartiteGraphError, createBipartiteGraph, HopcroftKarp } from "./hopkroft-karp";
+import { assertValidMatching, verifyMatching } from "./verify";
+
+describe("verifyMatching", () => {
+  const graph = createBipartiteGraph(3, 3, [
+    [0, 0], [0, 1],
+    [1, 0],
+    [2, 2]
+  ]);
+
+  test("accepts a valid matching", () => {
+    const matching = new HopcroftKarp(graph).findMaximumMatching();
+
+    expect(verifyMatching(graph, matching)).toEqual({ valid: true, violations: [], augmentingPath: null });
+    expect(verifyMatching(graph, matching, { checkMaximality: true })).toEqual({
+      valid: true,
+      violations: [],
+      maximum: true,
+      augmentingPath: null
+    });
+  });
+
+  test("returns an augmenting path for a matching that is not maximum", () => {
+    const matching = { matchLeft: [0, -1, -1], matchRight: [0, -1, -1], size: 1 };
+
+    const { valid, maximum, augmentingPath } = verifyMatching(graph, matching, { checkMaximality: true });
+
+    expect(valid).toBe(true);
+    expect(maximum).toBe(false);
+    // Left 2 can take right 2 directly
+    expect(augmentingPath).toEqual({ left: [2], right: [2] });
+  });
+
+  test("returns the shortest augmenting path", () => {
+    const matching = { matchLeft: [0, -1, 2], matchRight: [0, -1, 2], size: 2 };
+
+    const { augmentingPath } = verifyMatching(graph, matching, { checkMaximality: true });
+
+    // Left 1 takes right 0 from left 0, which moves to right 1
+    expect(augmentingPath).toEqual({ left: [1, 0], right: [0, 1] });
+  });
+
+  test("reports every violation", () => {
+    const matching = { matchLeft: [2, 0, 7], matchRight: [0, -1, 0], size: 5 };
+
+    const { valid, violations, maximum } = verifyMatching(graph, matching, { checkMaximality: true });
+
+    expect(valid).toBe(false);
+    expect(maximum).toBeUndefined();
+    expect(violations.map(v => v.kind)).toEqual([
+      "missing-edge",
+      "inconsistent",
+      "out-of-range",
+      "inconsistent",
+      "size"
+    ]);
+    expect(violations[0]).toEqual({
+      kind: "missing-edge",
+      message: "Left node 0 is matched to right node 2, but [0, 2] is not an edge",
+      left: 0,
+      right: 2
+    });
+    expect(violations[2].message).toBe("Left node 2 is matched to 7, which is not a right node in [0, 2]");
+    expect(violations[4].message).toBe("size is 5, but matchLeft has 2 matched pairs");
+  });
+
+  test("detects matchings of a different graph", () => {
+    const matching = { matchLeft: [0, -1], matchRight: [0, -1, -1], size: 1 };
+
+    const { violations } = verifyMatching(graph, matching);
+
+    expect(violations).toEqual([{ kind: "length", message: "matchLeft has 2 entries, expected 3" }]);
+  });
+
+  test("detects matchings invalidated by a graph update", () => {
+    const matching = new HopcroftKarp(graph).findMaximumMatching();
+    const updated = createBipartiteGraph(3, 3, [[0, 0], [0, 1], [1, 0]]);
+
+    const { violations } = verifyMatching(updated, matching);
+
+    expect(violations).toEqual([expect.objectContaining({ kind: "missing-edge", left: 2, right: 2 })]);
+  });
+});
+
+describe("assertValidMatching", () => {
+  const graph = createBipartiteGraph(2, 2, [[0, 0], [1, 1]]);
+
+  test("throws for invalid matchings", () => {
+    const matching = { matchLeft: [1, -1], matchRight: [-1, -1], size: 1 };
+
+    expect(() => assertValidMatching(graph, matching)).toThrow(BipartiteGraphError);
+    expect(() => assertValidMatching(graph, matching)).toThrow(
+      "Invalid matching: Left node 0 is matched to right node 1, but right node 1 is matched to -1 (and 1 more)"
+    );
+  });
+
+  test("throws for matchings that are not maximum only if asked", () => {
+    const matching = { matchLeft: [0, -1], matchRight: [0, -1], size: 1 };
+
+    expect(() => assertValidMatching(graph, matching)).not.toThrow();
+    expect(() => assertValidMatching(graph, matching, { checkMaximality: true })).toThrow(
+      "Matching is not maximum: augmenting path from left node 1 to right node 1"
+    );
+  });
+});
@@ -0,0 +1,230 @@
+/**
+ * Verification of matchings received from elsewhere (a cache, a service, an
+ * older version of the graph) before trusting them.
+ */
+
+import { BipartiteGraph, BipartiteGraphError, Matching } from "./hopkroft-karp";
+
+export type MatchingViolationKind =
+  /** matchLeft or matchRight does not have one entry per node */
+  | "length"
+  /** An entry is neither -1 nor a node index on the other side */
+  | "out-of-range"
+  /** matchLeft and matchRight disagree */
+  | "inconsistent"
+  /** A matched pair is not an edge of the graph */
+  | "missing-edge"
+  /** size is not the number of matched pairs */
+  | "size";
+
+export interface MatchingViolation {
+  readonly kind: MatchingViolationKind;
+  /** Human-readable description */
+  readonly message: string;
+  /** Left node involved, if any */
+  readonly left?: number;
+  /** Right node involved, if any */
+  readonly right?: number;
+}
+
+/**
+ * An augmenting path: left[0] is unmatched, (left[i], right[i]) are unmatched
+ * edges, (right[i], left[i + 1]) are matched edges, and right[k] is
+ * unmatched. Flipping it grows the matching by one.
+ */
+export interface AugmentingPath {
+  readonly left: readonly number[];
+  readonly right: readonly number[];
+}
+
+/**
+ * Options for verifying a matching.
+ */
+export interface VerifyMatchingOptions {
+  /** Whether to also check that the matching is maximum, in O(V + E) time (default: false) */
+  checkMaximality?: boolean;
+}
+
+export interface MatchingVerification {
+  /** Whether the matching has no violations */
+  readonly valid: boolean;
+  /** Every problem found, in order of node index */
+  readonly violations: readonly MatchingViolation[];
+  /** Whether the matching is maximum; undefined unless checked and valid */
+  readonly maximum?: boolean;
+  /** Witness that the matching is not maximum; null if it is or was not checked */
+  readonly augmentingPath: AugmentingPath | null;
+}
+
+/**
+ * Checks that a matching belongs to a graph: one consistent entry per node,
+ * only existing edges, and the right size. Optionally checks that it is
+ * maximum by searching for an augmenting path.
+ */
+export function verifyMatching(
+  graph: BipartiteGraph,
+  matching: Matching,
+  options: VerifyMatchingOptions = {}
+): MatchingVerification {
+  const { checkMaximality = false } = options;
+  const violations = findViolations(graph, matching);
+
+  if (violations.length > 0 || !checkMaximality) {
+    return { valid: violations.length === 0, violations, augmentingPath: null };
+  }
+
+  const augmentingPath = findAugmentingPath(graph, matching);
+  return { valid: true, violations, maximum: augmentingPath === null, augmentingPath };
+}
+
+/**
+ * Throws unless the matching is valid for the graph (and maximum, if requested).
+ *
+ * @throws {BipartiteGraphError} Describing the first violation, or the augmenting path
+ */
+export function assertValidMatching(
+  graph: BipartiteGraph,
+  matching: Matching,
+  options: VerifyMatchingOptions = {}
+): void {
+  const { violations, augmentingPath } = verifyMatching(graph, matching, options);
+
+  if (violations.length > 0) {
+    const more = violations.length > 1 ? ` (and ${violations.length - 1} more)` : "";
+    throw new BipartiteGraphError(`Invalid matching: ${violations[0].message}${more}`);
+  }
+  if (augmentingPath !== null) {
+    const { left, right } = augmentingPath;
+    throw new BipartiteGraphError(
+      `Matching is not maximum: augmenting path from left node ${left[0]} to right node ${right[right.length - 1]}`
+    );
+  }
+}
+
+function findViolations(graph: BipartiteGraph, matching: Matching): MatchingViolation[] {
+  const { leftSize, rightSize, edges } = graph;
+  const { matchLeft, matchRight } = matching;
+  const violations: MatchingViolation[] = [];
+
+  if (matchLeft.length !== leftSize) {
+    violations.push({
+      kind: "length",
+      message: `matchLeft has ${matchLeft.length} entries, expected ${leftSize}`
+    });
+  }
+  if (matchRight.length !== rightSize) {
+    violations.push({
+      kind: "length",
+      message: `matchRight has ${matchRight.length} entries, expected ${rightSize}`
+    });
+  }
+  if (violations.length > 0) {
+    return violations; // Entries cannot be matched up with nodes
+  }
+
+  const inRange = (index: number, size: number): boolean =>
+    index === -1 || (Number.isInteger(index) && index >= 0 && index < size);
+  let pairs = 0;
+
+  for (let u = 0; u < leftSize; u++) {
+    const v = matchLeft[u];
+    if (!inRange(v, rightSize)) {
+      violations.push({
+        kind: "out-of-range",
+        message: `Left node ${u} is matched to ${v}, which is not a right node in [0, ${rightSize - 1}]`,
+        left: u
+      });
+    } else if (v !== -1) {
+      pairs++;
+      if (matchRight[v] !== u) {
+        violations.push({
+          kind: "inconsistent",
+          message: `Left node ${u} is matched to right node ${v}, but right node ${v} is matched to ${matchRight[v]}`,
+          left: u,
+          right: v
+        });
+      }
+      if (!edges[u].includes(v)) {
+        violations.push({
+          kind: "missing-edge",
+          message: `Left node ${u} is matched to right node ${v}, but [${u}, ${v}] is not an edge`,
+          left: u,
+          right: v
+        });
+      }
+    }
+  }
+
+  for (let v = 0; v < rightSize; v++) {
+    const u = matchRight[v];
+    if (!inRange(u, leftSize)) {
+      violations.push({
+        kind: "out-of-range",
+        message: `Right node ${v} is matched to ${u}, which is not a left node in [0, ${leftSize - 1}]`,
+        right: v
+      });
+    } else if (u !== -1 && matchLeft[u] !== v) {
+      violations.push({
+        kind: "inconsistent",
+        message: `Right node ${v} is matched to left node ${u}, but left node ${u} is matched to ${matchLeft[u]}`,
+        left: u,
+        right: v
+      });
+    }
+  }
+
+  if (matching.size !== pairs) {
+    violations.push({
+      kind: "size",
+      message: `size is ${matching.size}, but matchLeft has ${pairs} matched pairs`
+    });
+  }
+
+  return violations;
+}
+
+/**
+ * Breadth-first search over alternating paths from every unmatched left node
+ * at once, returning the first path found to an unmatched right node.
+ */
+function findAugmentingPath(graph: BipartiteGraph, matching: Matching): AugmentingPath | null {
+  const { matchLeft, matchRight } = matching;
+  // parentOfRight[v] is the left node from which right node v was reached
+  const parentOfRight = new Int32Array(graph.rightSize).fill(-1);
+  const queue: number[] = [];
+  for (let u = 0; u < graph.leftSize; u++) {
+    if (matchLeft[u] === -1) {
+      queue.push(u);
+    }
+  }
+  const visitedLeft = new Uint8Array(graph.leftSize);
+  queue.forEach(u => { visitedLeft[u] = 1; });
+
+  for (let head = 0; head < queue.length; head++) {
+    const u = queue[head];
+    for (const v of graph.edges[u]) {
+      if (parentOfRight[v] !== -1) {
+        continue;
+      }
+      parentOfRight[v] = u;
+
+      const w = matchRight[v];
+      if (w === -1) {
+        // Walk back to the unmatched left node
+        const left: number[] = [];
+        const right: number[] = [];
+        for (let x = v; x !== -1; x = matchLeft[parentOfRight[x]]) {
+          right.push(x);
+          left.push(parentOfRight[x]);
+        }
+        return { left: left.reverse(), right: right.reverse() };
+      }
+      if (visitedLeft[w] === 0) {
+        visitedLeft[w] = 1;
+        queue.push(w);
+      }
+    }
+  }
+
+  return null;
+}